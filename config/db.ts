@@ -1,15 +1,22 @@
 import mongoose from "mongoose";
+import { migratePublishedAt, migrateUserIds } from "../services/migrations";
+import { instrumentMongo } from "../services/metrics";
+import logger from "./logger";
 
 const connectDB = async(): Promise<void> => {
     try {
         const dbConnection = process.env.DB_CONNECTION;
 
         await mongoose.connect(
-            dbConnection
+            dbConnection,
+            { monitorCommands: true }
         )
-        console.log("Successfully connected to MongoDB");
+        instrumentMongo(mongoose.connection.getClient());
+        logger.info("Successfully connected to MongoDB");
+        await migrateUserIds();
+        await migratePublishedAt();
     } catch (err) {
-        console.error(err);
+        logger.fatal({ err }, "Could not connect to MongoDB");
         process.exit(1);
     }
 };
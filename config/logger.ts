@@ -0,0 +1,44 @@
+import pino from 'pino';
+
+// Query parameters that carry credentials, e.g. feed tokens, stream access tokens and OAuth codes
+const SECRET_QUERY_PARAMS = ['token', 'access_token', 'refresh_token', 'code', 'state'];
+
+export const redactUrl = (url: string) => {
+    const queryStart = url.indexOf('?');
+    if (queryStart === -1) return url;
+
+    const params = new URLSearchParams(url.slice(queryStart + 1));
+    for (const name of SECRET_QUERY_PARAMS) {
+        if (params.has(name)) params.set(name, '[Redacted]');
+    }
+    return `${url.slice(0, queryStart)}?${params.toString()}`;
+};
+
+/**
+ * JSON logger shared by the server, requests and background jobs. The level is
+ * set with `LOG_LEVEL` and defaults to `debug` in development and `info` otherwise.
+ */
+const logger = pino({
+    level: process.env.LOG_LEVEL || (process.env.NODE_ENV === 'development' ? 'debug' : 'info'),
+    redact: {
+        paths: [
+            'req.headers.authorization',
+            'req.headers.cookie',
+            'res.headers["set-cookie"]',
+            'email',
+            '*.email',
+            'token',
+            '*.token',
+            '*.accessToken',
+            '*.refreshToken',
+            '*.password',
+            'err.keyValue.email',
+        ],
+        censor: '[Redacted]',
+    },
+    serializers: {
+        err: pino.stdSerializers.err,
+    },
+});
+
+export default logger;
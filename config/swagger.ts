@@ -1,4 +1,6 @@
 import swaggerJsdoc from 'swagger-jsdoc';
+import { z, ZodType } from 'zod';
+import { schemaRegistry } from '../schemas';
 
 const isDevelopment = process.env.NODE_ENV !== 'production';
 
@@ -20,16 +22,51 @@ const options: swaggerJsdoc.Options = {
           type: 'http',
           scheme: 'bearer',
           bearerFormat: 'JWT',
-          description: 'Enter your JWT token received from OAuth. The token is stored in browser\'s sessionStorage',
+          description: 'Enter your JWT access token received from OAuth or POST /auth/refresh. The token is stored in browser\'s sessionStorage',
+        },
+      },
+      responses: {
+        TooManyRequests: {
+          description: 'Rate limit exceeded, retry after the number of seconds in `Retry-After`',
+          headers: {
+            'Retry-After': {
+              description: 'Seconds until the client may retry',
+              schema: { type: 'integer', example: 120 },
+            },
+            'RateLimit-Limit': {
+              description: 'Requests allowed in the current window',
+              schema: { type: 'integer', example: 60 },
+            },
+            'RateLimit-Remaining': {
+              description: 'Requests left in the current window',
+              schema: { type: 'integer', example: 0 },
+            },
+            'RateLimit-Reset': {
+              description: 'Seconds until the current window resets',
+              schema: { type: 'integer', example: 120 },
+            },
+          },
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error',
+              },
+              example: {
+                code: 'RATE_LIMITED',
+                message: 'Too many requests, try again in 120 seconds',
+                details: { policy: 'write', retryAfter: 120 },
+              },
+            },
+          },
         },
       },
       schemas: {
         User: {
           type: 'object',
           properties: {
-            googleId: {
+            uid: {
               type: 'string',
-              description: 'Google OAuth ID',
+              description: 'User ID, equals the Google ID for accounts created through Google before local accounts existed',
               example: '1234567890',
             },
             name: {
@@ -56,6 +93,143 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        PublicProfile: {
+          type: 'object',
+          description: 'Fields the owner does not share with the current user are left out',
+          properties: {
+            uid: {
+              type: 'string',
+              example: '1234567890',
+            },
+            name: {
+              type: 'string',
+              example: 'John Doe',
+            },
+            picture: {
+              type: 'string',
+              example: 'https://example.com/avatar.jpg',
+            },
+            role: {
+              type: 'string',
+              enum: ['user', 'admin'],
+              example: 'user',
+            },
+            email: {
+              type: 'string',
+              format: 'email',
+              example: 'john.doe@example.com',
+            },
+            bio: {
+              type: 'string',
+              example: 'Third year computer science student',
+            },
+            phone: {
+              type: 'string',
+              example: '+48 600 100 200',
+            },
+            website: {
+              type: 'string',
+              example: 'https://johndoe.dev',
+            },
+            location: {
+              type: 'string',
+              example: 'Kraków',
+            },
+          },
+        },
+        OwnProfile: {
+          allOf: [
+            { $ref: '#/components/schemas/PublicProfile' },
+            {
+              type: 'object',
+              properties: {
+                visibility: {
+                  type: 'object',
+                  description: 'Who can see each field: every signed-in user or only the user and admins',
+                  properties: Object.fromEntries(['email', 'bio', 'phone', 'website', 'location'].map((field) => [field, {
+                    type: 'string',
+                    enum: ['public', 'private'],
+                  }])),
+                },
+                hasPassword: {
+                  type: 'boolean',
+                  description: 'Whether the user can sign in with email and password',
+                  example: false,
+                },
+                googleLinked: {
+                  type: 'boolean',
+                  description: 'Whether a Google account is linked',
+                  example: true,
+                },
+              },
+            },
+          ],
+        },
+        UserPage: {
+          type: 'object',
+          properties: {
+            users: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/User',
+              },
+            },
+            currentPage: {
+              type: 'integer',
+              example: 1,
+            },
+            totalPages: {
+              type: 'integer',
+              example: 3,
+            },
+            totalUsers: {
+              type: 'integer',
+              example: 57,
+            },
+          },
+        },
+        FollowPage: {
+          type: 'object',
+          properties: {
+            users: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  uid: {
+                    type: 'string',
+                    example: '1234567890',
+                  },
+                  name: {
+                    type: 'string',
+                    example: 'John Doe',
+                  },
+                  picture: {
+                    type: 'string',
+                    example: 'https://example.com/avatar.jpg',
+                  },
+                  followedAt: {
+                    type: 'string',
+                    format: 'date-time',
+                    example: '2026-02-01T08:15:00Z',
+                  },
+                },
+              },
+            },
+            currentPage: {
+              type: 'integer',
+              example: 1,
+            },
+            totalPages: {
+              type: 'integer',
+              example: 2,
+            },
+            totalUsers: {
+              type: 'integer',
+              example: 31,
+            },
+          },
+        },
         Post: {
           type: 'object',
           properties: {
@@ -71,13 +245,23 @@ const options: swaggerJsdoc.Options = {
             },
             content: {
               type: 'string',
-              description: 'Post content',
-              example: 'This is the content of my post...',
+              description: 'Markdown source of the post, only returned by GET /post',
+              example: 'The lot behind **building B** is closed on Monday.',
+            },
+            contentHtml: {
+              type: 'string',
+              description: 'Sanitized HTML rendered from the content, only returned by GET /post',
+              example: '<p>The lot behind <strong>building B</strong> is closed on Monday.</p>',
+            },
+            excerpt: {
+              type: 'string',
+              description: 'Plain-text beginning of the content',
+              example: 'The lot behind building B is closed on Monday.',
             },
             author: {
               type: 'object',
               properties: {
-                googleId: {
+                uid: {
                   type: 'string',
                   example: '1234567890',
                 },
@@ -85,10 +269,6 @@ const options: swaggerJsdoc.Options = {
                   type: 'string',
                   example: 'John Doe',
                 },
-                email: {
-                  type: 'string',
-                  example: 'john.doe@example.com',
-                },
                 picture: {
                   type: 'string',
                   example: 'https://example.com/avatar.jpg',
@@ -99,6 +279,54 @@ const options: swaggerJsdoc.Options = {
                 },
               },
             },
+            category: {
+              nullable: true,
+              allOf: [{ $ref: '#/components/schemas/CategoryRef' }],
+            },
+            tags: {
+              type: 'array',
+              items: {
+                type: 'string',
+              },
+              example: ['keys', 'building-b'],
+            },
+            attachments: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/Attachment',
+              },
+            },
+            hidden: {
+              type: 'boolean',
+              description: 'Hidden by moderation, only returned to the author and admins',
+              example: false,
+            },
+            publishAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Scheduled publication date, null when published immediately',
+              example: '2026-02-01T08:00:00Z',
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Date after which the post is archived, null when it never expires',
+              example: '2026-02-28T23:59:59Z',
+            },
+            status: {
+              type: 'string',
+              enum: ['scheduled', 'published', 'expired'],
+              description: 'Scheduled and expired posts are only returned to the author and admins',
+              example: 'published',
+            },
+            publishedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Effective publication date, `publishAt` for scheduled posts and the creation date otherwise. Listings are sorted by it',
+              example: '2026-02-01T08:00:00Z',
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -111,15 +339,600 @@ const options: swaggerJsdoc.Options = {
               description: 'Post last update timestamp',
               example: '2026-01-31T10:30:00Z',
             },
+            reactions: {
+              $ref: '#/components/schemas/ReactionCounts',
+            },
+            myReaction: {
+              type: 'string',
+              nullable: true,
+              enum: ['like', 'love', 'laugh', 'wow', 'sad'],
+              description: 'Reaction of the current user, null when they have not reacted',
+              example: 'like',
+            },
+          },
+        },
+        ReactionCounts: {
+          type: 'object',
+          description: 'Number of reactions of each type',
+          properties: {
+            like: { type: 'integer', example: 4 },
+            love: { type: 'integer', example: 1 },
+            laugh: { type: 'integer', example: 0 },
+            wow: { type: 'integer', example: 2 },
+            sad: { type: 'integer', example: 0 },
+          },
+        },
+        ReactionSummary: {
+          type: 'object',
+          properties: {
+            reactions: {
+              $ref: '#/components/schemas/ReactionCounts',
+            },
+            myReaction: {
+              type: 'string',
+              nullable: true,
+              enum: ['like', 'love', 'laugh', 'wow', 'sad'],
+              example: 'love',
+            },
+          },
+        },
+        RevisionSummary: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+              example: '65bb2a3fe4b0a1a2b3c4d5f1',
+            },
+            post: {
+              type: 'string',
+              description: 'Post ID',
+              example: '507f1f77bcf86cd799439011',
+            },
+            version: {
+              type: 'integer',
+              description: 'Starts at 1 for the original post',
+              example: 2,
+            },
+            title: {
+              type: 'string',
+              example: 'Parking lot closed on Monday',
+            },
+            editor: {
+              type: 'object',
+              nullable: true,
+              description: 'User who made the edit, null when the account no longer exists',
+              properties: {
+                uid: {
+                  type: 'string',
+                  example: '1234567890',
+                },
+                name: {
+                  type: 'string',
+                  example: 'John Doe',
+                },
+                picture: {
+                  type: 'string',
+                  example: 'https://example.com/avatar.jpg',
+                },
+                role: {
+                  type: 'string',
+                  example: 'admin',
+                },
+              },
+            },
+            revertedFrom: {
+              type: 'integer',
+              nullable: true,
+              description: 'Version restored by this revision, null for regular edits',
+              example: null,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-01-31T10:30:00Z',
+            },
+          },
+        },
+        Revision: {
+          allOf: [
+            { $ref: '#/components/schemas/RevisionSummary' },
+            {
+              type: 'object',
+              properties: {
+                content: {
+                  type: 'string',
+                  example: 'From Monday the parking lot behind building B will be closed.',
+                },
+              },
+            },
+          ],
+        },
+        RevisionChange: {
+          type: 'object',
+          properties: {
+            value: {
+              type: 'string',
+              example: 'Monday',
+            },
+            added: {
+              type: 'boolean',
+              description: 'Only present in the newer revision',
+              example: true,
+            },
+            removed: {
+              type: 'boolean',
+              description: 'Only present in the older revision',
+              example: false,
+            },
+          },
+        },
+        Category: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+              description: 'Category ID',
+              example: '65b9f1c2e4b0a1a2b3c4d5e6',
+            },
+            name: {
+              type: 'string',
+              example: 'Lost & Found',
+            },
+            slug: {
+              type: 'string',
+              example: 'lost-found',
+            },
+            description: {
+              type: 'string',
+              example: 'Items lost or found on campus',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-01-31T10:30:00Z',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-01-31T10:30:00Z',
+            },
+          },
+        },
+        CategoryRef: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+              example: '65b9f1c2e4b0a1a2b3c4d5e6',
+            },
+            name: {
+              type: 'string',
+              example: 'Lost & Found',
+            },
+            slug: {
+              type: 'string',
+              example: 'lost-found',
+            },
+          },
+        },
+        Attachment: {
+          type: 'object',
+          properties: {
+            url: {
+              type: 'string',
+              example: 'https://api-tabloid.azurewebsites.net/attachments/3f2b8c9e-6d1a-4f0e-9b7a-2c5d8e1f4a6b.jpg',
+            },
+            thumbnailUrl: {
+              type: 'string',
+              example: 'https://api-tabloid.azurewebsites.net/attachments/3f2b8c9e-6d1a-4f0e-9b7a-2c5d8e1f4a6b_thumb.webp',
+            },
+            mimeType: {
+              type: 'string',
+              example: 'image/jpeg',
+            },
+            size: {
+              type: 'integer',
+              description: 'Size of the original file in bytes',
+              example: 284123,
+            },
+            width: {
+              type: 'integer',
+              example: 1920,
+            },
+            height: {
+              type: 'integer',
+              example: 1080,
+            },
+            originalName: {
+              type: 'string',
+              example: 'keys.jpg',
+            },
+          },
+        },
+        Comment: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+              description: 'Comment ID',
+              example: '65ba0c1de4b0a1a2b3c4d5e7',
+            },
+            post: {
+              type: 'string',
+              description: 'ID of the commented post',
+              example: '507f1f77bcf86cd799439011',
+            },
+            parent: {
+              type: 'string',
+              nullable: true,
+              description: 'ID of the top-level comment this is a reply to',
+              example: null,
+            },
+            author: {
+              type: 'object',
+              properties: {
+                uid: {
+                  type: 'string',
+                  example: '1234567890',
+                },
+                name: {
+                  type: 'string',
+                  example: 'John Doe',
+                },
+                picture: {
+                  type: 'string',
+                  example: 'https://example.com/avatar.jpg',
+                },
+                role: {
+                  type: 'string',
+                  example: 'user',
+                },
+              },
+            },
+            content: {
+              type: 'string',
+              example: 'Is the parking lot closed on weekends too?',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-01-31T10:30:00Z',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-01-31T10:30:00Z',
+            },
+          },
+        },
+        ModerationQueueItem: {
+          type: 'object',
+          properties: {
+            post: {
+              type: 'object',
+              properties: {
+                _id: {
+                  type: 'string',
+                  example: '507f1f77bcf86cd799439011',
+                },
+                title: {
+                  type: 'string',
+                  example: 'Cheap watches',
+                },
+                author: {
+                  type: 'string',
+                  description: 'ID of the author',
+                  example: '1234567890',
+                },
+                hidden: {
+                  type: 'boolean',
+                  example: false,
+                },
+                createdAt: {
+                  type: 'string',
+                  format: 'date-time',
+                  example: '2026-01-31T10:30:00Z',
+                },
+              },
+            },
+            reportCount: {
+              type: 'integer',
+              example: 3,
+            },
+            lastReportedAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-02-01T08:15:00Z',
+            },
+            reports: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  _id: {
+                    type: 'string',
+                    example: '65ba1f2ae4b0a1a2b3c4d5e8',
+                  },
+                  reporter: {
+                    type: 'string',
+                    example: '0987654321',
+                  },
+                  reason: {
+                    type: 'string',
+                    example: 'Spam',
+                  },
+                  createdAt: {
+                    type: 'string',
+                    format: 'date-time',
+                    example: '2026-02-01T08:15:00Z',
+                  },
+                },
+              },
+            },
+          },
+        },
+        TrashedPost: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+              example: '507f1f77bcf86cd799439011',
+            },
+            title: {
+              type: 'string',
+              example: 'My First Post',
+            },
+            author: {
+              type: 'string',
+              description: 'ID of the author',
+              example: '1234567890',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-01-31T10:30:00Z',
+            },
+            deletedAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-02-02T09:00:00Z',
+            },
+            deletedBy: {
+              type: 'string',
+              description: 'ID of the user who deleted the post',
+              example: '1234567890',
+            },
+            purgeAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the post will be removed permanently',
+              example: '2026-03-04T09:00:00Z',
+            },
+          },
+        },
+        TrashedUser: {
+          allOf: [
+            { $ref: '#/components/schemas/User' },
+            {
+              type: 'object',
+              properties: {
+                deletedAt: {
+                  type: 'string',
+                  format: 'date-time',
+                  example: '2026-02-02T09:00:00Z',
+                },
+                deletedBy: {
+                  type: 'string',
+                  description: 'ID of the admin who deleted the user',
+                  example: '0987654321',
+                },
+                purgeAt: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'When the user will be removed permanently',
+                  example: '2026-03-04T09:00:00Z',
+                },
+              },
+            },
+          ],
+        },
+        AuditLogEntry: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+              example: '65bb2a10e4b0a1a2b3c4d5e9',
+            },
+            actor: {
+              type: 'string',
+              description: 'ID of the user who performed the action',
+              example: '0987654321',
+            },
+            action: {
+              type: 'string',
+              example: 'post.delete',
+            },
+            targetType: {
+              type: 'string',
+              enum: ['post', 'user', 'category', 'report'],
+              example: 'post',
+            },
+            targetId: {
+              type: 'string',
+              example: '507f1f77bcf86cd799439011',
+            },
+            before: {
+              type: 'object',
+              nullable: true,
+              description: 'Snapshot of the target before the action, user snapshots only keep IDs, role and deletion state',
+            },
+            after: {
+              type: 'object',
+              nullable: true,
+              description: 'Snapshot of the target after the action, user snapshots only keep IDs, role and deletion state',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-02-02T09:00:00Z',
+            },
+          },
+        },
+        Notification: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+              example: '65bc1e2fe4b0a1a2b3c4d601',
+            },
+            recipient: {
+              type: 'string',
+              description: 'ID of the notified user',
+              example: '1234567890',
+            },
+            type: {
+              type: 'string',
+              enum: ['post.edited', 'post.deleted', 'user.role'],
+              example: 'post.edited',
+            },
+            actor: {
+              type: 'object',
+              nullable: true,
+              description: 'User whose action caused the notification, null if they no longer exist',
+              properties: {
+                uid: {
+                  type: 'string',
+                  example: '0987654321',
+                },
+                name: {
+                  type: 'string',
+                  example: 'Jane Admin',
+                },
+                picture: {
+                  type: 'string',
+                  example: 'https://example.com/admin.jpg',
+                },
+              },
+            },
+            post: {
+              type: 'string',
+              nullable: true,
+              description: 'ID of the affected post',
+              example: '507f1f77bcf86cd799439011',
+            },
+            data: {
+              type: 'object',
+              nullable: true,
+              description: 'Post title for post events, new and previous role for role changes',
+              example: { title: 'Parking lot closed on Monday' },
+            },
+            readAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              example: null,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-02-03T14:20:00Z',
+            },
+          },
+        },
+        SearchHighlights: {
+          type: 'object',
+          description: 'HTML-escaped fragments with matching search terms wrapped in <mark> tags. Present only when searching with `q`.',
+          properties: {
+            title: {
+              type: 'string',
+              example: 'New <mark>parking</mark> rules',
+            },
+            content: {
+              type: 'string',
+              example: '…from Monday the <mark>parking</mark> lot behind building B will be closed…',
+            },
+          },
+        },
+        PostPage: {
+          type: 'object',
+          properties: {
+            posts: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/Post' },
+                  {
+                    type: 'object',
+                    properties: {
+                      highlights: {
+                        $ref: '#/components/schemas/SearchHighlights',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+            currentPage: {
+              type: 'integer',
+              example: 1,
+              description: 'Not returned in cursor mode',
+            },
+            totalPages: {
+              type: 'integer',
+              example: 5,
+              description: 'Not returned in cursor mode',
+            },
+            totalPosts: {
+              type: 'integer',
+              example: 42,
+              description: 'Not returned in cursor mode',
+            },
+            nextCursor: {
+              type: 'string',
+              nullable: true,
+              description: 'Cursor of the next page, null on the last page or when sorting by relevance',
+              example: 'WzE3Njk4NTU0MDAwMDAsIjUwN2YxZjc3YmNmODZjZDc5OTQzOTAxMSJd',
+            },
+            hasMore: {
+              type: 'boolean',
+              description: 'Only returned in cursor mode',
+              example: true,
+            },
+          },
+        },
+        TokenPair: {
+          type: 'object',
+          properties: {
+            token: {
+              type: 'string',
+              description: 'Short-lived JWT access token',
+              example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+            },
+            refreshToken: {
+              type: 'string',
+              description: 'Single-use refresh token replacing the one that was sent',
+              example: 'q8V1n3lJx0b...',
+            },
           },
         },
         Error: {
           type: 'object',
+          required: ['code', 'message', 'details'],
           properties: {
+            code: {
+              type: 'string',
+              description: 'Machine-readable error code',
+              example: 'VALIDATION_ERROR',
+            },
             message: {
               type: 'string',
               description: 'Error message',
-              example: 'An error occurred',
+              example: 'Request validation failed',
+            },
+            details: {
+              nullable: true,
+              description: 'Additional information, e.g. the invalid fields of a request',
+              example: [{ location: 'query', path: 'id', message: 'Must be a valid ObjectId' }],
             },
           },
         },
@@ -137,6 +950,63 @@ const options: swaggerJsdoc.Options = {
   ],
 };
 
-const swaggerSpec = swaggerJsdoc(options);
+type JsonSchema = { properties?: Record<string, JsonSchema>; required?: string[]; [key: string]: unknown };
+type Operation = { 'x-validation'?: string; parameters?: unknown[]; requestBody?: { required?: boolean; content?: Record<string, unknown> } };
+type Spec = { paths?: Record<string, Record<string, Operation>>; components: { schemas: Record<string, unknown> } };
+
+const toJsonSchema = (schema: ZodType) => z.toJSONSchema(schema, { target: 'openapi-3.0', io: 'input' }) as JsonSchema;
+
+const toParameters = (location: 'query' | 'path', schema: ZodType) => {
+  const { properties = {}, required = [] } = toJsonSchema(schema);
+  return Object.entries(properties).map(([name, { description, example, ...property }]) => ({
+    in: location,
+    name,
+    required: location === 'path' || required.includes(name),
+    schema: property,
+    description,
+    example,
+  }));
+};
+
+/**
+ * Fills in parameters and JSON request bodies of every operation marked with
+ * `x-validation: <name>` from the request schemas registered under that name.
+ */
+const applyRequestSchemas = (spec: Spec) => {
+  for (const path of Object.values(spec.paths || {})) {
+    for (const operation of Object.values(path)) {
+      const name = operation['x-validation'];
+      if (!name) continue;
+
+      const schemas = schemaRegistry.get(name);
+      if (!schemas) {
+        throw new Error(`Unknown request schemas ${name} referenced in the OpenAPI docs`);
+      }
+      delete operation['x-validation'];
+
+      operation.parameters = [
+        ...(schemas.params ? toParameters('path', schemas.params) : []),
+        ...(schemas.query ? toParameters('query', schemas.query) : []),
+        ...(operation.parameters || []),
+      ];
+
+      if (schemas.body) {
+        spec.components.schemas[`${name}Body`] = toJsonSchema(schemas.body);
+        // Keeps other media types documented by hand, e.g. multipart uploads
+        operation.requestBody = {
+          required: true,
+          ...operation.requestBody,
+          content: {
+            ...operation.requestBody?.content,
+            'application/json': { schema: { $ref: `#/components/schemas/${name}Body` } },
+          },
+        };
+      }
+    }
+  }
+  return spec;
+};
+
+const swaggerSpec = applyRequestSchemas(swaggerJsdoc(options) as Spec);
 
 export default swaggerSpec;
\ No newline at end of file
@@ -1,14 +1,37 @@
 import express, {Request, Response} from 'express'
-import { OAuth2Client } from 'google-auth-library';
 
 import 'dotenv/config'
 
 import connectDB from './config/db';
+import { startTrashPurge } from './jobs/purgeTrash';
+import { startPostArchiving } from './jobs/archiveExpiredPosts';
+import { startScheduledPostAnnouncements } from './jobs/announceScheduledPosts';
+import { errorHandler, notFoundHandler } from './middleware/error';
+import { loginUrlLimit, RATE_LIMIT_HEADERS } from './middleware/rateLimit';
+import { collectHttpMetrics } from './middleware/metrics';
+import { requestLogger, REQUEST_ID_HEADER } from './middleware/logging';
+import logger from './config/logger';
+import { buildAuthUrl } from './services/google';
 import cors from 'cors'
 
 import oAuthRouter from './routes/oauth';
+import authRouter from './routes/auth';
 import userRouter from './routes/user';
 import postRouter from './routes/post';
+import categoryRouter from './routes/category';
+import commentRouter from './routes/comment';
+import revisionRouter from './routes/revision';
+import reactionRouter from './routes/reaction';
+import bookmarkRouter from './routes/bookmark';
+import followRouter from './routes/follow';
+import notificationRouter from './routes/notification';
+import feedRouter from './routes/feed';
+import eventsRouter from './routes/events';
+import attachmentRouter from './routes/attachment';
+import moderationRouter from './routes/moderation';
+import trashRouter from './routes/trash';
+import auditRouter from './routes/audit';
+import metricsRouter from './routes/metrics';
 
 import swaggerUi from 'swagger-ui-express';
 import swaggerSpec from './config/swagger';
@@ -16,18 +39,30 @@ import swaggerSpec from './config/swagger';
 const app = express();
 const port = process.env.PORT || 3000;
 const frontendUrl = process.env.FRONTEND_REDIRECT_URL || "http://localhost:5173";
-const googleRedirectUrl = process.env.GOOGLE_REDIRECT_URL || "http://localhost:3000/oauth";
 
 
 connectDB();
+startTrashPurge();
+startPostArchiving();
+startScheduledPostAnnouncements();
+
+// Behind a reverse proxy rate limits need the client IP from X-Forwarded-For and absolute URLs the original
+// protocol and host, e.g. TRUST_PROXY=1 on Azure App Service. Without it all clients share the proxy's address
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
 
 const corsOptions = {
   origin: frontendUrl,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Accept', REQUEST_ID_HEADER],
+  exposedHeaders: [...RATE_LIMIT_HEADERS, REQUEST_ID_HEADER],
 };
 
+app.use(requestLogger);
+app.use(collectHttpMetrics);
 app.use(cors(corsOptions));
 app.use(express.json())
 
@@ -39,20 +74,6 @@ app.use('/api', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
   },
 }));
 
-const buildAuthUrl = () => {
-    const oAuth2Client = new OAuth2Client(
-        process.env.GOOGLE_CLIENT_ID,
-        process.env.GOOGLE_CLIENT_SECRET,
-        googleRedirectUrl
-    );
-    return oAuth2Client.generateAuthUrl({
-        access_type: 'offline',
-        scope: 'openid https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/userinfo.profile',
-        prompt: 'consent',
-    });
-};
-
-
 /**
  * @openapi
  * /login:
@@ -74,8 +95,10 @@ const buildAuthUrl = () => {
  *                   type: string
  *                   description: Google OAuth authentication URL
  *                   example: https://accounts.google.com/o/oauth2/v2/auth?...
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-app.get("/login", (_req: Request, res: Response) => {
+app.get("/login", loginUrlLimit, (_req: Request, res: Response) => {
     res.header("Access-Control-Allow-Origin", frontendUrl);
     res.header("Referer-Policy", "no-referrer-when-downgrade");
     res.json({ url: buildAuthUrl() });
@@ -102,16 +125,33 @@ app.get("/login", (_req: Request, res: Response) => {
  *                   type: string
  *                   description: Google OAuth authentication URL
  *                   example: https://accounts.google.com/o/oauth2/v2/auth?...
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-app.post("/", (req: Request, res: Response) => {
+app.post("/", loginUrlLimit, (req: Request, res: Response) => {
     res.header("Access-Control-Allow-Origin", frontendUrl);
     res.header("Referer-Policy", "no-referrer-when-downgrade");
     res.json({ url: buildAuthUrl() });
 })
 
+app.use("/", metricsRouter);
 app.use("/oauth", oAuthRouter);
+app.use("/auth", authRouter);
 app.use("/user", userRouter);
+app.use("/attachments", attachmentRouter);
+app.use("/trash", trashRouter);
+app.use("/audit", auditRouter);
 app.use("/", postRouter);
+app.use("/", categoryRouter);
+app.use("/", commentRouter);
+app.use("/", revisionRouter);
+app.use("/", reactionRouter);
+app.use("/", bookmarkRouter);
+app.use("/", followRouter);
+app.use("/", notificationRouter);
+app.use("/", feedRouter);
+app.use("/", eventsRouter);
+app.use("/", moderationRouter);
 
 /**
  * @openapi
@@ -135,8 +175,11 @@ app.get("/", (req: Request, res: Response) => {
     res.send("API is working, documentation available at /api.");
 })
 
+app.use(notFoundHandler);
+app.use(errorHandler);
+
 app.listen(port, () => {
-    console.log(`Server is running on port ${port}`);
+    logger.info(`Server is running on port ${port}`);
 })
 
 export default app
\ No newline at end of file
@@ -0,0 +1,25 @@
+import Post from '../models/post';
+import logger from '../config/logger';
+import { publishPostEvent } from '../services/postEvents';
+
+const INTERVAL_SECONDS = parseInt(process.env.SCHEDULED_POSTS_INTERVAL_SECONDS as string) || 60;
+
+let checkedUntil = new Date();
+
+/**
+ * Publishes `post.created` events for scheduled posts whose publication date has
+ * passed since the last run. The posts themselves need no update, they become
+ * visible by their `publishAt` alone.
+ */
+export const announceScheduledPosts = async () => {
+    const now = new Date();
+    const posts = await Post.find({ publishAt: { $gt: checkedUntil, $lte: now }, deletedAt: null });
+    checkedUntil = now;
+
+    posts.forEach((post) => publishPostEvent('post.created', post));
+};
+
+export const startScheduledPostAnnouncements = () => {
+    const run = () => announceScheduledPosts().catch((err) => logger.error({ err }, 'Announcing scheduled posts failed'));
+    return setInterval(run, INTERVAL_SECONDS * 1000);
+};
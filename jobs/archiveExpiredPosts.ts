@@ -0,0 +1,30 @@
+import Post from '../models/post';
+import logger from '../config/logger';
+import { publishPostEvent } from '../services/postEvents';
+
+const INTERVAL_MINUTES = parseInt(process.env.POST_ARCHIVE_INTERVAL_MINUTES as string) || 5;
+
+/**
+ * Archives posts whose expiry date has passed. Archived posts stay visible to
+ * their author and admins until the author renews them.
+ */
+export const archiveExpiredPosts = async () => {
+    const now = new Date();
+    const postIds = await Post.find({ expiresAt: { $ne: null, $lte: now }, archivedAt: null, deletedAt: null }).distinct('_id');
+    if (postIds.length === 0) return;
+
+    const { modifiedCount } = await Post.updateMany(
+        { _id: { $in: postIds }, archivedAt: null, deletedAt: null },
+        { archivedAt: now },
+    );
+    logger.info({ posts: modifiedCount }, 'Archived expired posts');
+
+    const posts = await Post.find({ _id: { $in: postIds }, archivedAt: now });
+    posts.forEach((post) => publishPostEvent('post.updated', post));
+};
+
+export const startPostArchiving = () => {
+    const run = () => archiveExpiredPosts().catch((err) => logger.error({ err }, 'Archiving expired posts failed'));
+    run();
+    return setInterval(run, INTERVAL_MINUTES * 60 * 1000);
+};
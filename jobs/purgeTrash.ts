@@ -0,0 +1,36 @@
+import Post from '../models/post';
+import User from '../models/user';
+import { purgePosts, purgeUser } from '../services/purge';
+import logger from '../config/logger';
+
+export const RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS as string) || 30;
+
+// When something trashed at `deletedAt` is removed for good
+export const purgeDate = (deletedAt: Date) => new Date(deletedAt.getTime() + RETENTION_DAYS * 24 * 60 * 60 * 1000);
+const INTERVAL_MINUTES = parseInt(process.env.TRASH_PURGE_INTERVAL_MINUTES as string) || 60;
+
+/**
+ * Permanently removes posts and users that have been in the trash for longer
+ * than the retention period.
+ */
+export const purgeTrash = async () => {
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    const users = await User.find({ deletedAt: { $ne: null, $lte: cutoff } }).select('uid');
+    for (const user of users) {
+        await purgeUser(user.uid);
+    }
+
+    const postIds = await Post.find({ deletedAt: { $ne: null, $lte: cutoff } }).distinct('_id');
+    await purgePosts(postIds);
+
+    if (users.length > 0 || postIds.length > 0) {
+        logger.info({ users: users.length, posts: postIds.length }, 'Purged trashed users and posts');
+    }
+};
+
+export const startTrashPurge = () => {
+    const run = () => purgeTrash().catch((err) => logger.error({ err }, 'Trash purge failed'));
+    run();
+    return setInterval(run, INTERVAL_MINUTES * 60 * 1000);
+};
@@ -1,10 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import User from '../models/user';
+import { ACCESS_TOKEN_AUDIENCE, hashToken } from '../services/tokens';
+import { forbidden, unauthorized } from '../utils/errors';
 
 interface JwtPayload {
     userId: string;
     email: string;
     role: string;
+    tokenVersion?: number;
+    exp?: number;
 }
 
 declare global {
@@ -14,25 +19,70 @@ declare global {
         }
     }
 }
-export const authenticate = (req: Request, res: Response, next: NextFunction) => {
-    const token = req.headers.authorization?.split(' ')[1];
-    
+const setUser = (req: Request, user: JwtPayload) => {
+    req.user = user;
+    // Log lines written while handling the request carry the user as well
+    req.log = req.log.child({ userId: user.userId });
+};
+
+// Resolves an access token to its payload unless it is invalid or has been revoked
+const verifyAccessToken = async (token: string | undefined) => {
     if (!token) {
-        return res.status(401).json({ message: 'Authentication required' });
+        throw unauthorized('Authentication required');
     }
 
+    let decoded: JwtPayload;
     try {
-        const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload;
-        req.user = decoded;
-        next();
+        decoded = jwt.verify(token, process.env.JWT_SECRET!, { audience: ACCESS_TOKEN_AUDIENCE }) as JwtPayload;
     } catch (error) {
-        return res.status(401).json({ message: 'Invalid token' });
+        throw unauthorized('Invalid token');
+    }
+
+    // Tokens are revoked by bumping the user's tokenVersion
+    const user = await User.findOne({ uid: decoded.userId, deletedAt: null }).select('tokenVersion');
+    if (!user || (user.tokenVersion || 0) !== (decoded.tokenVersion || 0)) {
+        throw unauthorized('Token has been revoked');
     }
+
+    return decoded;
+};
+
+export const authenticate = async (req: Request, _res: Response, next: NextFunction) => {
+    setUser(req, await verifyAccessToken(req.headers.authorization?.split(' ')[1]));
+    next();
+};
+
+// The browser EventSource API and <img> tags cannot send headers, so event streams and attachments also accept `?access_token=`
+export const authenticateFromQuery = async (req: Request) => {
+    const queryToken = typeof req.query.access_token === 'string' ? req.query.access_token : undefined;
+    setUser(req, await verifyAccessToken(req.headers.authorization?.split(' ')[1] || queryToken));
+};
+
+export const authenticateStream = async (req: Request, _res: Response, next: NextFunction) => {
+    await authenticateFromQuery(req);
+    next();
+};
+
+// Feed readers cannot send headers, so feeds also accept the user's secret feed token as `?token=`
+export const authenticateFeed = async (req: Request, res: Response, next: NextFunction) => {
+    const feedToken = req.query.token;
+
+    if (typeof feedToken !== 'string' || !feedToken) {
+        return authenticate(req, res, next);
+    }
+
+    const user = await User.findOne({ feedTokenHash: hashToken(feedToken), deletedAt: null });
+    if (!user) {
+        throw unauthorized('Invalid feed token');
+    }
+
+    setUser(req, { userId: user.uid, email: user.email, role: user.role, tokenVersion: user.tokenVersion });
+    next();
 };
 
-export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+export const requireAdmin = (req: Request, _res: Response, next: NextFunction) => {
     if (req.user?.role !== 'admin') {
-        return res.status(403).json({ message: 'Admin access required' });
+        throw forbidden('Admin access required');
     }
     next();
 };
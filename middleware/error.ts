@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { ApiError, notFound } from '../utils/errors';
+
+const toApiError = (err: unknown): ApiError => {
+    if (err instanceof ApiError) return err;
+
+    if (err instanceof mongoose.Error.CastError) {
+        return new ApiError(400, 'INVALID_ID', `Invalid value for ${err.path}`, { path: err.path, value: err.value });
+    }
+
+    if (err instanceof mongoose.Error.ValidationError) {
+        const details = Object.values(err.errors).map((error) => ({ path: error.path, message: error.message }));
+        return new ApiError(400, 'VALIDATION_ERROR', 'Request validation failed', details);
+    }
+
+    if (err instanceof mongoose.mongo.MongoServerError && err.code === 11000) {
+        return new ApiError(409, 'CONFLICT', 'Resource already exists', err.keyValue ?? null);
+    }
+
+    // Errors raised by express.json, e.g. malformed JSON or a too large body
+    const httpError = err as { status?: number; type?: string; expose?: boolean; message?: string };
+    if (httpError?.expose && httpError.status && httpError.status < 500) {
+        const code = httpError.type === 'entity.parse.failed' ? 'INVALID_JSON' : 'BAD_REQUEST';
+        return new ApiError(httpError.status, code, httpError.message || 'Bad request');
+    }
+
+    return new ApiError(500, 'INTERNAL_ERROR', 'Internal server error');
+};
+
+export const notFoundHandler = (req: Request) => {
+    throw notFound(`Route ${req.method} ${req.path} not found`);
+};
+
+/**
+ * Turns every error into a `{ code, message, details }` response.
+ * Internal details are logged with the request but never sent to the client.
+ */
+export const errorHandler = (err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    const apiError = toApiError(err);
+
+    if (apiError.status >= 500) {
+        // Picked up by the request logger when the response completes
+        res.err = err instanceof Error ? err : new Error(String(err));
+    }
+
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+
+    res.status(apiError.status).json({
+        code: apiError.code,
+        message: apiError.message,
+        details: apiError.details,
+    });
+};
@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import pinoHttp from 'pino-http';
+import logger, { redactUrl } from '../config/logger';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Incoming IDs are only trusted when they are short and free of characters that could forge log lines
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Logs every request once it completes with its method, route, status, latency
+ * and the authenticated user. The request ID is taken from the `X-Request-Id`
+ * header or generated, echoed in the response and bound to `req.log`.
+ */
+export const requestLogger = pinoHttp({
+    logger,
+    genReqId: (req, res) => {
+        const incoming = req.headers['x-request-id'];
+        const id = typeof incoming === 'string' && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+        res.setHeader(REQUEST_ID_HEADER, id);
+        return id;
+    },
+    // Lines written through req.log carry only the request ID instead of the whole request
+    quietReqLogger: true,
+    customAttributeKeys: { reqId: 'requestId' },
+    customProps: (req) => ((req as Request).user ? { userId: (req as Request).user!.userId } : {}),
+    customLogLevel: (_req, res, err) => {
+        if (err || res.statusCode >= 500) return 'error';
+        if (res.statusCode >= 400) return 'warn';
+        return 'info';
+    },
+    customSuccessMessage: (req, res, responseTime) => `${req.method} ${redactUrl((req as Request).originalUrl)} ${res.statusCode} ${responseTime}ms`,
+    customErrorMessage: (req, res) => `${req.method} ${redactUrl((req as Request).originalUrl)} ${res.statusCode}`,
+    serializers: {
+        // The query string is already part of the URL
+        req: ({ id, method, url, remoteAddress, headers }) => ({ id, method, url: redactUrl(url), remoteAddress, headers }),
+        res: (res) => ({ statusCode: res.statusCode }),
+    },
+});
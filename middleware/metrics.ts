@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import net from 'net';
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration, httpRequests, httpRequestsInFlight } from '../services/metrics';
+import { forbidden, unauthorized } from '../utils/errors';
+
+const METRICS_TOKEN = process.env.METRICS_TOKEN || '';
+
+/**
+ * Parses a comma separated list of IP addresses and CIDR ranges, e.g.
+ * `10.0.0.0/8,192.168.1.20`. Without a token or an allowlist only loopback
+ * addresses may scrape.
+ */
+const buildAllowlist = (value: string | undefined) => {
+    const list = new net.BlockList();
+    const entries = (value || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+
+    if (entries.length === 0 && !METRICS_TOKEN) {
+        list.addSubnet('127.0.0.0', 8, 'ipv4');
+        list.addAddress('::1', 'ipv6');
+    }
+
+    for (const entry of entries) {
+        const [address, prefix] = entry.split('/');
+        const type = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+        if (prefix) {
+            list.addSubnet(address, parseInt(prefix), type);
+        } else {
+            list.addAddress(address, type);
+        }
+    }
+
+    return { list, configured: entries.length > 0 || !METRICS_TOKEN };
+};
+
+const allowlist = buildAllowlist(process.env.METRICS_ALLOWLIST);
+
+const isAllowedAddress = (ip: string | undefined) => {
+    if (!ip) return false;
+    // IPv4 clients on a dual-stack socket show up as ::ffff:a.b.c.d
+    const address = ip.startsWith('::ffff:') ? ip.slice(7) : ip;
+    return allowlist.list.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+};
+
+const hasMetricsToken = (req: Request) => {
+    const header = req.headers.authorization;
+    if (!METRICS_TOKEN || !header?.startsWith('Bearer ')) return false;
+
+    const given = crypto.createHash('sha256').update(header.slice(7)).digest();
+    const expected = crypto.createHash('sha256').update(METRICS_TOKEN).digest();
+    return crypto.timingSafeEqual(given, expected);
+};
+
+/**
+ * Lets a scrape through when it carries `METRICS_TOKEN` as a bearer token or
+ * comes from an address on `METRICS_ALLOWLIST`.
+ */
+export const metricsAccess = (req: Request, _res: Response, next: NextFunction) => {
+    if (hasMetricsToken(req)) return next();
+    if (allowlist.configured && isAllowedAddress(req.ip)) return next();
+
+    if (METRICS_TOKEN && !req.headers.authorization) {
+        throw unauthorized('Metrics token required');
+    }
+    throw forbidden('Not allowed to read metrics');
+};
+
+/**
+ * Counts requests and records their latency. Routes are labelled by their
+ * pattern, e.g. `/user/me/notifications` or `/feeds/:format`, and requests
+ * that match no route share the `unmatched` label.
+ */
+export const collectHttpMetrics = (req: Request, res: Response, next: NextFunction) => {
+    const endTimer = httpRequestDuration.startTimer();
+    let route = 'unmatched';
+    let matched: { path: string } | undefined;
+
+    // The router restores req.baseUrl when an error leaves a mounted router,
+    // so the full pattern is captured at the moment the route matches
+    Object.defineProperty(req, 'route', {
+        configurable: true,
+        enumerable: true,
+        get: () => matched,
+        set: (value: { path: string }) => {
+            matched = value;
+            route = `${req.baseUrl}${value.path}`;
+        },
+    });
+
+    httpRequestsInFlight.inc();
+    let done = false;
+    const finish = () => {
+        if (done) return;
+        done = true;
+        httpRequestsInFlight.dec();
+        const labels = { method: req.method, route, status: String(res.statusCode) };
+        httpRequests.inc(labels);
+        endTimer(labels);
+    };
+
+    res.on('finish', finish);
+    res.on('close', finish);
+    next();
+};
@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import rateLimitStore from '../ratelimit';
+import { ApiError } from '../utils/errors';
+
+interface RateLimitPolicy {
+    name: string;
+    limit: number;
+    windowSeconds: number;
+}
+
+// 0 exempts admins, otherwise their limit is multiplied by this factor
+const ADMIN_FACTOR = parseInt(process.env.RATE_LIMIT_ADMIN_FACTOR as string) || 0;
+
+const policy = (name: string, limit: number, windowSeconds: number): RateLimitPolicy => {
+    const prefix = `RATE_LIMIT_${name.toUpperCase()}`;
+    return {
+        name,
+        limit: parseInt(process.env[`${prefix}_MAX`] as string) || limit,
+        windowSeconds: parseInt(process.env[`${prefix}_WINDOW_SECONDS`] as string) || windowSeconds,
+    };
+};
+
+/**
+ * Limits requests per authenticated user, or per IP address for anonymous
+ * requests, and sets the `RateLimit-*` headers. Must run after `authenticate`
+ * for the per-user limits and the admin exemption to apply.
+ */
+const rateLimit = ({ name, limit, windowSeconds }: RateLimitPolicy) => async (req: Request, res: Response, next: NextFunction) => {
+    const isAdmin = req.user?.role === 'admin';
+    if (isAdmin && ADMIN_FACTOR === 0) {
+        return next();
+    }
+
+    const max = isAdmin ? limit * ADMIN_FACTOR : limit;
+    const client = req.user ? `user:${req.user.userId}` : `ip:${req.ip}`;
+    const { count, resetAt } = await rateLimitStore.increment(`${name}:${client}`, windowSeconds * 1000);
+    const resetSeconds = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+
+    res.set({
+        'RateLimit-Policy': `${max};w=${windowSeconds}`,
+        'RateLimit-Limit': String(max),
+        'RateLimit-Remaining': String(Math.max(0, max - count)),
+        'RateLimit-Reset': String(resetSeconds),
+    });
+
+    if (count > max) {
+        res.set('Retry-After', String(resetSeconds));
+        throw new ApiError(429, 'RATE_LIMITED', `Too many requests, try again in ${resetSeconds} seconds`, {
+            policy: name,
+            retryAfter: resetSeconds,
+        });
+    }
+
+    next();
+};
+
+// Login and token endpoints, limited per IP before the user is known
+export const authLimit = rateLimit(policy('auth', 20, 15 * 60));
+
+// Fetching the Google login URL checks no credentials and happens on every visit to the login page,
+// so it gets its own, larger budget instead of using up the attempts of `authLimit`
+export const loginUrlLimit = rateLimit(policy('login_url', 300, 15 * 60));
+
+// Refreshing and logging out, every signed-in client refreshes once per access token lifetime,
+// so this allows for many users sharing one IP address, e.g. behind a campus NAT
+export const sessionLimit = rateLimit(policy('session', 600, 15 * 60));
+
+// Creating posts, the most expensive write because of image processing
+export const postLimit = rateLimit(policy('post', 10, 60 * 60));
+
+// Other writes such as comments, edits, deletions and reports
+export const writeLimit = rateLimit(policy('write', 60, 15 * 60));
+
+export const RATE_LIMIT_HEADERS = ['Retry-After', 'RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset'];
@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { badRequest } from '../utils/errors';
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const MAX_POST_IMAGES = parseInt(process.env.MAX_POST_IMAGES as string) || 5;
+export const MAX_IMAGE_SIZE = parseInt(process.env.MAX_IMAGE_SIZE as string) || 5 * 1024 * 1024;
+
+class UnsupportedTypeError extends Error {}
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: MAX_IMAGE_SIZE,
+        files: MAX_POST_IMAGES,
+    },
+    fileFilter: (_req, file, cb) => {
+        if (!ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+            return cb(new UnsupportedTypeError(`Unsupported file type ${file.mimetype}`));
+        }
+        cb(null, true);
+    },
+});
+
+const multerMessages: Partial<Record<multer.ErrorCode, string>> = {
+    LIMIT_FILE_SIZE: `Images must be at most ${Math.floor(MAX_IMAGE_SIZE / 1024 / 1024)} MB`,
+    LIMIT_FILE_COUNT: `A post can have at most ${MAX_POST_IMAGES} images`,
+    LIMIT_UNEXPECTED_FILE: `Images must be sent in the "images" field, at most ${MAX_POST_IMAGES} at a time`,
+};
+
+/**
+ * Parses an optional multipart body with up to MAX_POST_IMAGES files in the
+ * `images` field into `req.files`. JSON requests pass through untouched.
+ */
+export const uploadImages = (req: Request, res: Response, next: NextFunction) => {
+    upload.array('images', MAX_POST_IMAGES)(req, res, (err: unknown) => {
+        if (err instanceof multer.MulterError) {
+            return next(badRequest(multerMessages[err.code] || err.message));
+        }
+        if (err instanceof UnsupportedTypeError) {
+            return next(badRequest(`${err.message}, allowed: ${ALLOWED_IMAGE_TYPES.join(', ')}`));
+        }
+        if (err) return next(err);
+        next();
+    });
+};
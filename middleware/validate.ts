@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { z, ZodType } from 'zod';
+import { ApiError } from '../utils/errors';
+import { RequestSchemas } from '../schemas/registry';
+
+type Output<S> = S extends ZodType ? z.output<S> : undefined;
+
+export type Validated<S extends RequestSchemas> = {
+    params: Output<S['params']>;
+    query: Output<S['query']>;
+    body: Output<S['body']>;
+};
+
+declare global {
+    namespace Express {
+        interface Request {
+            validated?: Partial<Record<keyof RequestSchemas, unknown>>;
+        }
+    }
+}
+
+const locations: (keyof RequestSchemas)[] = ['params', 'query', 'body'];
+
+/**
+ * Parses the request against the given schemas. Responds with 400 listing
+ * every invalid field, otherwise stores the parsed values for `validated`.
+ */
+export const validate = (schemas: RequestSchemas) => (req: Request, _res: Response, next: NextFunction) => {
+    const validatedParts: Partial<Record<keyof RequestSchemas, unknown>> = {};
+    const details: { location: string; path: string; message: string }[] = [];
+
+    for (const location of locations) {
+        const schema = schemas[location];
+        if (!schema) continue;
+
+        const result = schema.safeParse(req[location] ?? {});
+        if (result.success) {
+            validatedParts[location] = result.data;
+        } else {
+            details.push(...result.error.issues.map((issue) => ({
+                location,
+                path: issue.path.join('.'),
+                message: issue.message,
+            })));
+        }
+    }
+
+    if (details.length > 0) {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'Request validation failed', details);
+    }
+
+    req.validated = validatedParts;
+    next();
+};
+
+/**
+ * Typed access to the values parsed by `validate` for the same schemas.
+ */
+export const validated = <S extends RequestSchemas>(req: Request) => req.validated as Validated<S>;
@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAuditLog extends Document {
+    actor: string;
+    action: string;
+    targetType: 'post' | 'user' | 'category' | 'report';
+    targetId: string;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+    createdAt: Date;
+}
+
+const auditLogSchema: Schema<IAuditLog> = new Schema<IAuditLog>({
+    actor: {
+        type: String,
+        required: true,
+        description: 'ID of the user who performed the action',
+    },
+    action: {
+        type: String,
+        required: true,
+        description: 'Dotted action name, e.g. post.update or user.role',
+    },
+    targetType: {
+        type: String,
+        enum: ['post', 'user', 'category', 'report'],
+        required: true,
+    },
+    targetId: {
+        type: String,
+        required: true,
+        description: 'ObjectId or user ID of the affected record',
+    },
+    before: {
+        type: Schema.Types.Mixed,
+        default: null,
+        description: 'Snapshot of the target before the action',
+    },
+    after: {
+        type: Schema.Types.Mixed,
+        default: null,
+        description: 'Snapshot of the target after the action',
+    },
+}, {
+    autoCreate: true,
+    autoIndex: true,
+    timestamps: { createdAt: true, updatedAt: false },
+});
+
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+
+// The log is append-only: entries can be created but never changed or removed
+const rejectChange = () => {
+    throw new Error('Audit log entries cannot be modified or deleted');
+};
+auditLogSchema.pre('save', function () {
+    if (!this.isNew) rejectChange();
+});
+auditLogSchema.pre(
+    ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace',
+        'deleteOne', 'deleteMany', 'findOneAndDelete'],
+    rejectChange
+);
+
+const AuditLog = mongoose.model<IAuditLog>('auditLogs', auditLogSchema);
+
+export default AuditLog;
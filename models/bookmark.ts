@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IBookmark extends Document {
+    post: Types.ObjectId;
+    user: string;
+    createdAt: Date;
+}
+
+const bookmarkSchema: Schema<IBookmark> = new Schema<IBookmark>({
+    post: {
+        type: Schema.Types.ObjectId,
+        ref: 'posts',
+        required: true,
+        description: 'References the bookmarked post',
+    },
+    user: {
+        type: String,
+        required: true,
+        description: 'ID of the user who owns the bookmark, bookmarks are private',
+    },
+}, {
+    autoCreate: true,
+    autoIndex: true,
+    timestamps: { createdAt: true, updatedAt: false },
+});
+
+bookmarkSchema.index({ user: 1, post: 1 }, { unique: true });
+bookmarkSchema.index({ user: 1, createdAt: -1 });
+bookmarkSchema.index({ post: 1 });
+
+const Bookmark = mongoose.model<IBookmark>('bookmarks', bookmarkSchema);
+
+export default Bookmark;
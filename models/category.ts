@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICategory extends Document {
+    name: string;
+    slug: string;
+    description: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const categorySchema: Schema<ICategory> = new Schema<ICategory>({
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+        description: 'Must be a string and is required',
+    },
+    slug: {
+        type: String,
+        required: true,
+        unique: true,
+        lowercase: true,
+        trim: true,
+        description: 'URL-friendly identifier derived from the name, must be unique',
+    },
+    description: {
+        type: String,
+        required: false,
+        default: '',
+        description: 'must be a string',
+    },
+}, {
+    autoCreate: true,
+    autoIndex: true,
+    timestamps: true,
+});
+
+const Category = mongoose.model<ICategory>('categories', categorySchema);
+
+export default Category;
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IComment extends Document {
+    post: Types.ObjectId;
+    parent?: Types.ObjectId | null;
+    author: string;
+    content: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const commentSchema: Schema<IComment> = new Schema<IComment>({
+    post: {
+        type: Schema.Types.ObjectId,
+        ref: 'posts',
+        required: true,
+        description: 'References the commented post',
+    },
+    parent: {
+        type: Schema.Types.ObjectId,
+        ref: 'comments',
+        required: false,
+        default: null,
+        description: 'Top-level comment this one replies to, null for top-level comments',
+    },
+    author: {
+        type: String,
+        required: true,
+        description: 'References to a user ID (`uid`)',
+    },
+    content: {
+        type: String,
+        required: true,
+        description: 'Must be a string and is required',
+    },
+}, {
+    autoCreate: true,
+    autoIndex: true,
+    timestamps: true,
+});
+
+commentSchema.index({ post: 1, parent: 1, createdAt: 1 });
+commentSchema.index({ author: 1 });
+
+const Comment = mongoose.model<IComment>('comments', commentSchema);
+
+export default Comment;
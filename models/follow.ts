@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IFollow extends Document {
+    follower: string;
+    following: string;
+    createdAt: Date;
+}
+
+const followSchema: Schema<IFollow> = new Schema<IFollow>({
+    follower: {
+        type: String,
+        required: true,
+        description: 'ID of the user who follows',
+    },
+    following: {
+        type: String,
+        required: true,
+        description: 'ID of the followed author',
+    },
+}, {
+    autoCreate: true,
+    autoIndex: true,
+    timestamps: { createdAt: true, updatedAt: false },
+});
+
+followSchema.index({ follower: 1, following: 1 }, { unique: true });
+followSchema.index({ following: 1, createdAt: -1 });
+followSchema.index({ follower: 1, createdAt: -1 });
+
+const Follow = mongoose.model<IFollow>('follows', followSchema);
+
+export default Follow;
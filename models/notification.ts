@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export const NOTIFICATION_TYPES = ['post.edited', 'post.deleted', 'user.role'] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export interface INotification extends Document {
+    recipient: string;
+    type: NotificationType;
+    actor: string;
+    post?: Types.ObjectId | null;
+    data?: Record<string, unknown> | null;
+    readAt?: Date | null;
+    createdAt: Date;
+}
+
+const notificationSchema: Schema<INotification> = new Schema<INotification>({
+    recipient: {
+        type: String,
+        required: true,
+        description: 'ID of the notified user',
+    },
+    type: {
+        type: String,
+        enum: NOTIFICATION_TYPES,
+        required: true,
+    },
+    actor: {
+        type: String,
+        required: true,
+        description: 'ID of the user whose action caused the notification',
+    },
+    post: {
+        type: Schema.Types.ObjectId,
+        ref: 'posts',
+        default: null,
+        description: 'References the affected post, if any',
+    },
+    data: {
+        type: Schema.Types.Mixed,
+        default: null,
+        description: 'Details needed to render the notification, e.g. the post title at the time of the event',
+    },
+    readAt: {
+        type: Date,
+        default: null,
+    },
+}, {
+    autoCreate: true,
+    autoIndex: true,
+    timestamps: { createdAt: true, updatedAt: false },
+});
+
+notificationSchema.index({ recipient: 1, createdAt: -1 });
+notificationSchema.index({ recipient: 1, readAt: 1 });
+notificationSchema.index({ post: 1 });
+
+const Notification = mongoose.model<INotification>('notifications', notificationSchema);
+
+export default Notification;
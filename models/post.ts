@@ -1,13 +1,48 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { renderMarkdown } from '../utils/markdown';
 
-interface IPost extends Document {
+export interface IAttachment {
+    key: string;
+    thumbnailKey: string;
+    mimeType: string;
+    size: number;
+    width?: number;
+    height?: number;
+    originalName: string;
+}
+
+export interface IPost extends Document {
     title: string;
     content: string;
+    contentHtml?: string;
+    excerpt?: string;
     author: string;
+    category?: Types.ObjectId;
+    tags: string[];
+    attachments: IAttachment[];
+    hidden: boolean;
+    hiddenAt?: Date | null;
+    hiddenBy?: string | null;
+    publishAt?: Date | null;
+    publishedAt: Date;
+    expiresAt?: Date | null;
+    archivedAt?: Date | null;
+    deletedAt?: Date | null;
+    deletedBy?: string | null;
     createdAt: Date;
     updatedAt: Date;
 }
 
+const attachmentSchema: Schema<IAttachment> = new Schema<IAttachment>({
+    key: { type: String, required: true },
+    thumbnailKey: { type: String, required: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true },
+    width: { type: Number },
+    height: { type: Number },
+    originalName: { type: String, default: '' },
+}, { _id: false });
+
 const postSchema: Schema<IPost> = new Schema<IPost>({
     title: {
         type: String,
@@ -19,10 +54,77 @@ const postSchema: Schema<IPost> = new Schema<IPost>({
         required: true,
         description: "Must be a string and is required"
     },
+    contentHtml: {
+        type: String,
+        description: 'Sanitized HTML rendered from the Markdown content on save',
+    },
+    excerpt: {
+        type: String,
+        description: 'Plain-text beginning of the content, rendered on save',
+    },
     author: {
         type: String,
         required: true,
-        description: "References to a Google ID"
+        description: "References to a user ID (`uid`)"
+    },
+    category: {
+        type: Schema.Types.ObjectId,
+        ref: 'categories',
+        required: false,
+        description: "References a category managed by admins"
+    },
+    tags: {
+        type: [String],
+        default: [],
+        description: "Free-form lowercase tags"
+    },
+    attachments: {
+        type: [attachmentSchema],
+        default: [],
+        description: "Images stored through the storage driver"
+    },
+    hidden: {
+        type: Boolean,
+        default: false,
+        description: "Hidden by moderation, visible only to the author and admins"
+    },
+    hiddenAt: {
+        type: Date,
+        default: null,
+    },
+    hiddenBy: {
+        type: String,
+        default: null,
+        description: "ID of the admin who hid the post, 'system' when hidden automatically"
+    },
+    publishAt: {
+        type: Date,
+        default: null,
+        description: "Post is visible only to the author and admins until this date, null publishes immediately"
+    },
+    publishedAt: {
+        type: Date,
+        description: "Effective publication date, the scheduled date or else the creation date. Listings sort by it"
+    },
+    expiresAt: {
+        type: Date,
+        default: null,
+        description: "Post is archived after this date, null never expires"
+    },
+    archivedAt: {
+        type: Date,
+        default: null,
+        description: "Set by the scheduler once the post has expired, cleared when the author renews it"
+    },
+    deletedAt: {
+        type: Date,
+        default: null,
+        description: "Set when the post is moved to the trash, purged after the retention period"
+    },
+    deletedBy: {
+        type: String,
+        default: null,
+        description: "ID of the user who deleted the post"
     },
 }, {
     autoCreate: true,
@@ -30,6 +132,31 @@ const postSchema: Schema<IPost> = new Schema<IPost>({
     timestamps: true,
 });
 
+// Content is Markdown, the rendered HTML and excerpt are kept in sync with it
+postSchema.pre('save', function () {
+    if (this.isModified('content') || this.contentHtml === undefined) {
+        const { html, excerpt } = renderMarkdown(this.content);
+        this.contentHtml = html;
+        this.excerpt = excerpt;
+    }
+    this.publishedAt = this.publishAt || this.createdAt || new Date();
+});
+
+// Full-text index backing the `q` search parameter of GET /posts
+postSchema.index(
+    { title: 'text', content: 'text' },
+    { name: 'post_text_search', weights: { title: 5, content: 1 } }
+);
+postSchema.index({ publishedAt: -1, _id: -1 });
+postSchema.index({ author: 1, publishedAt: -1 });
+postSchema.index({ category: 1, publishedAt: -1 });
+postSchema.index({ tags: 1 });
+postSchema.index({ deletedAt: 1 });
+postSchema.index({ expiresAt: 1, archivedAt: 1 });
+// Attachment downloads look up the post an image belongs to
+postSchema.index({ 'attachments.key': 1 });
+postSchema.index({ 'attachments.thumbnailKey': 1 });
+
 const Post = mongoose.model<IPost>('posts', postSchema);
 
 export default Post;
\ No newline at end of file
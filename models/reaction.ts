@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export const REACTION_TYPES = ['like', 'love', 'laugh', 'wow', 'sad'] as const;
+
+export type ReactionType = typeof REACTION_TYPES[number];
+
+export interface IReaction extends Document {
+    post: Types.ObjectId;
+    user: string;
+    type: ReactionType;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const reactionSchema: Schema<IReaction> = new Schema<IReaction>({
+    post: {
+        type: Schema.Types.ObjectId,
+        ref: 'posts',
+        required: true,
+        description: 'References the post reacted to',
+    },
+    user: {
+        type: String,
+        required: true,
+        description: 'ID of the user who reacted',
+    },
+    type: {
+        type: String,
+        enum: REACTION_TYPES,
+        required: true,
+        description: 'One of the fixed reaction types, a user has at most one reaction per post',
+    },
+}, {
+    autoCreate: true,
+    autoIndex: true,
+    timestamps: true,
+});
+
+reactionSchema.index({ post: 1, user: 1 }, { unique: true });
+reactionSchema.index({ user: 1 });
+
+const Reaction = mongoose.model<IReaction>('reactions', reactionSchema);
+
+export default Reaction;
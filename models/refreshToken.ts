@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+    user: string;
+    tokenHash: string;
+    expiresAt: Date;
+    revokedAt?: Date | null;
+    replacedBy?: string | null;
+    createdAt: Date;
+}
+
+const refreshTokenSchema: Schema<IRefreshToken> = new Schema<IRefreshToken>({
+    user: {
+        type: String,
+        required: true,
+        description: 'References to a user ID (`uid`)',
+    },
+    tokenHash: {
+        type: String,
+        required: true,
+        unique: true,
+        description: 'SHA-256 hash of the refresh token, the token itself is never stored',
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+        description: 'Expiry date, expired tokens are removed by a TTL index',
+    },
+    revokedAt: {
+        type: Date,
+        default: null,
+        description: 'Set when the token was rotated or revoked',
+    },
+    replacedBy: {
+        type: String,
+        default: null,
+        description: 'Hash of the token issued when this one was rotated',
+    },
+}, {
+    autoCreate: true,
+    autoIndex: true,
+    timestamps: { createdAt: true, updatedAt: false },
+});
+
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+refreshTokenSchema.index({ user: 1 });
+
+const RefreshToken = mongoose.model<IRefreshToken>('refreshTokens', refreshTokenSchema);
+
+export default RefreshToken;
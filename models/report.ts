@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IReport extends Document {
+    post: Types.ObjectId;
+    reporter: string;
+    reason: string;
+    status: 'open' | 'dismissed' | 'resolved';
+    resolvedBy?: string | null;
+    resolvedAt?: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const reportSchema: Schema<IReport> = new Schema<IReport>({
+    post: {
+        type: Schema.Types.ObjectId,
+        ref: 'posts',
+        required: true,
+        description: 'References the reported post',
+    },
+    reporter: {
+        type: String,
+        required: true,
+        description: 'References to a user ID (`uid`)',
+    },
+    reason: {
+        type: String,
+        required: true,
+        maxlength: 500,
+        description: 'Must be a string of at most 500 characters and is required',
+    },
+    status: {
+        type: String,
+        enum: ['open', 'dismissed', 'resolved'],
+        required: true,
+        default: 'open',
+        description: 'open until an admin hides the post (resolved) or dismisses the report',
+    },
+    resolvedBy: {
+        type: String,
+        default: null,
+        description: 'ID of the admin who handled the report',
+    },
+    resolvedAt: {
+        type: Date,
+        default: null,
+    },
+}, {
+    autoCreate: true,
+    autoIndex: true,
+    timestamps: true,
+});
+
+reportSchema.index({ post: 1, reporter: 1 }, { unique: true });
+reportSchema.index({ status: 1, post: 1 });
+
+const Report = mongoose.model<IReport>('reports', reportSchema);
+
+export default Report;
@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IRevision extends Document {
+    post: Types.ObjectId;
+    version: number;
+    title: string;
+    content: string;
+    editor: string;
+    revertedFrom?: number | null;
+    createdAt: Date;
+}
+
+const revisionSchema: Schema<IRevision> = new Schema<IRevision>({
+    post: {
+        type: Schema.Types.ObjectId,
+        ref: 'posts',
+        required: true,
+        description: 'References the edited post',
+    },
+    version: {
+        type: Number,
+        required: true,
+        min: 1,
+        description: 'Starts at 1 for the original post and increases with every edit',
+    },
+    title: {
+        type: String,
+        required: true,
+        description: 'Title of the post as of this revision',
+    },
+    content: {
+        type: String,
+        required: true,
+        description: 'Content of the post as of this revision',
+    },
+    editor: {
+        type: String,
+        required: true,
+        description: 'ID of the user who made the edit',
+    },
+    revertedFrom: {
+        type: Number,
+        default: null,
+        description: 'Version restored by this revision, null for regular edits',
+    },
+}, {
+    autoCreate: true,
+    autoIndex: true,
+    timestamps: { createdAt: true, updatedAt: false },
+});
+
+revisionSchema.index({ post: 1, version: -1 }, { unique: true });
+
+const Revision = mongoose.model<IRevision>('revisions', revisionSchema);
+
+export default Revision;
@@ -1,19 +1,55 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
-interface IUser extends Document {
-    googleId: string;
+export const PROFILE_VISIBILITY = ['public', 'private'] as const;
+export type ProfileVisibility = typeof PROFILE_VISIBILITY[number];
+
+// Profile fields whose visibility each user controls, name and picture are always public
+export const PRIVATE_PROFILE_FIELDS = ['email', 'bio', 'phone', 'website', 'location'] as const;
+export type PrivateProfileField = typeof PRIVATE_PROFILE_FIELDS[number];
+
+export const DEFAULT_PROFILE_VISIBILITY: Record<PrivateProfileField, ProfileVisibility> = {
+    email: 'private',
+    bio: 'public',
+    phone: 'private',
+    website: 'public',
+    location: 'public',
+};
+
+export interface IUser extends Document {
+    uid: string;
+    googleId?: string;
+    passwordHash?: string;
     name: string;
     email: string;
     picture: string;
+    nameEditedAt?: Date | null;
+    bio?: string;
+    phone?: string;
+    website?: string;
+    location?: string;
+    visibility: Record<PrivateProfileField, ProfileVisibility>;
     role: 'user' | 'admin';
+    tokenVersion: number;
+    feedTokenHash?: string;
+    deletedAt?: Date | null;
+    deletedBy?: string | null;
 }
 
 const userSchema: Schema<IUser> = new Schema<IUser>({
-    googleId: {
+    uid: {
         type: String,
         required: true,
         unique: true,
-        description: 'Google ID used as reference key',
+        description: 'Provider-neutral user ID used as reference key, equals the Google ID for accounts created through Google before local accounts existed',
+    },
+    googleId: {
+        type: String,
+        description: 'Google ID of the linked Google identity, if any',
+    },
+    passwordHash: {
+        type: String,
+        select: false,
+        description: 'scrypt hash of the password of local accounts',
     },
     name: {
         type: String,
@@ -30,6 +66,35 @@ const userSchema: Schema<IUser> = new Schema<IUser>({
         required: false,
         description: 'must be a string',
     },
+    nameEditedAt: {
+        type: Date,
+        default: null,
+        description: 'Set when the user changes their display name, Google logins stop overwriting it from then on',
+    },
+    bio: {
+        type: String,
+        maxlength: 500,
+        description: 'Short self-description shown on the profile',
+    },
+    phone: {
+        type: String,
+        maxlength: 32,
+        description: 'Contact phone number',
+    },
+    website: {
+        type: String,
+        maxlength: 200,
+        description: 'Personal website URL',
+    },
+    location: {
+        type: String,
+        maxlength: 100,
+        description: 'City or region',
+    },
+    visibility: Object.fromEntries(PRIVATE_PROFILE_FIELDS.map((field) => [
+        field,
+        { type: String, enum: PROFILE_VISIBILITY, default: DEFAULT_PROFILE_VISIBILITY[field] },
+    ])),
     role: {
         type: String,
         enum: ['user', 'admin'],
@@ -37,10 +102,36 @@ const userSchema: Schema<IUser> = new Schema<IUser>({
         default: 'user',
         description: 'must be a string of \'user\' or \'admin\' and is required',
     },
+    tokenVersion: {
+        type: Number,
+        required: true,
+        default: 0,
+        description: 'Incremented to invalidate all access tokens issued to the user',
+    },
+    feedTokenHash: {
+        type: String,
+        select: false,
+        description: 'SHA-256 hash of the secret token that authenticates the user\'s feed URLs',
+    },
+    deletedAt: {
+        type: Date,
+        default: null,
+        description: 'Set when the user is moved to the trash, purged after the retention period',
+    },
+    deletedBy: {
+        type: String,
+        default: null,
+        description: 'ID of the admin who deleted the user',
+    },
 }, {
     autoCreate: true,
 });
 
+userSchema.index({ googleId: 1 }, { unique: true, sparse: true });
+// Local accounts sign in with their email address, Google accounts may share theirs
+userSchema.index({ email: 1 }, { unique: true, partialFilterExpression: { passwordHash: { $exists: true } } });
+userSchema.index({ feedTokenHash: 1 }, { unique: true, sparse: true });
+
 const User = mongoose.model<IUser>('users', userSchema);
 
 export default User;
\ No newline at end of file
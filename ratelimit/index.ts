@@ -0,0 +1,30 @@
+import MemoryStore from './memory';
+
+export interface RateLimitHit {
+    count: number;
+    resetAt: number;
+}
+
+/**
+ * Counts requests per key in fixed windows. Shared stores let several API
+ * instances enforce the same limits.
+ */
+export interface RateLimitStore {
+    increment(key: string, windowMs: number): Promise<RateLimitHit>;
+    reset(key: string): Promise<void>;
+}
+
+const createRateLimitStore = (): RateLimitStore => {
+    const driver = process.env.RATE_LIMIT_STORE || 'memory';
+
+    switch (driver) {
+        case 'memory':
+            return new MemoryStore();
+        default:
+            throw new Error(`Unknown rate limit store: ${driver}`);
+    }
+};
+
+const rateLimitStore = createRateLimitStore();
+
+export default rateLimitStore;
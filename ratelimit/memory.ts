@@ -0,0 +1,43 @@
+import type { RateLimitHit, RateLimitStore } from './index';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps counters in the process memory. Limits are per instance and reset
+ * when the API restarts.
+ */
+class MemoryStore implements RateLimitStore {
+    private readonly hits = new Map<string, RateLimitHit>();
+
+    constructor() {
+        // Expired windows are dropped periodically so that one-off clients do not pile up
+        setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref();
+    }
+
+    private sweep() {
+        const now = Date.now();
+        for (const [key, hit] of this.hits) {
+            if (hit.resetAt <= now) this.hits.delete(key);
+        }
+    }
+
+    async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+        const now = Date.now();
+        const current = this.hits.get(key);
+
+        if (!current || current.resetAt <= now) {
+            const hit = { count: 1, resetAt: now + windowMs };
+            this.hits.set(key, hit);
+            return { ...hit };
+        }
+
+        current.count += 1;
+        return { ...current };
+    }
+
+    async reset(key: string): Promise<void> {
+        this.hits.delete(key);
+    }
+}
+
+export default MemoryStore;
@@ -0,0 +1,97 @@
+import express, { Request, Response } from 'express';
+import path from 'path';
+import storage from '../storage';
+import Post from '../models/post';
+import { authenticateFromQuery } from '../middleware/auth';
+import { canViewPost, isPublicPost } from '../utils/visibility';
+import { notFound } from '../utils/errors';
+
+const router = express.Router();
+
+/**
+ * @openapi
+ * /attachments/{key}:
+ *   get:
+ *     summary: Download a post attachment
+ *     description: |
+ *       Serves an uploaded image or its thumbnail. Images of published posts are public so that they can be used directly
+ *       in `<img>` tags; keys are unguessable. Images of hidden, scheduled or expired posts are only served to users who can
+ *       see the post, authenticated with the Authorization header or `access_token`. Images of trashed posts are not served.
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Attachment key as returned in the post's attachment URLs
+ *         example: 3f2b8c9e-6d1a-4f0e-9b7a-2c5d8e1f4a6b.jpg
+ *       - in: query
+ *         name: access_token
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Access token for images of posts that are not public, as `<img>` tags cannot send headers
+ *     responses:
+ *       200:
+ *         description: File contents
+ *         content:
+ *           image/*:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: The post is not public and the request is not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Attachment not found or the post cannot be seen
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:key', async (req: Request, res: Response) => {
+    const key = req.params.key as string;
+
+    const post = await Post.findOne({ $or: [{ 'attachments.key': key }, { 'attachments.thumbnailKey': key }] })
+        .select('author hidden publishAt expiresAt archivedAt deletedAt');
+
+    if (!post || post.deletedAt) {
+        throw notFound('Attachment not found');
+    }
+
+    if (!isPublicPost(post)) {
+        await authenticateFromQuery(req);
+        if (!canViewPost(post, req.user!)) {
+            throw notFound('Attachment not found');
+        }
+    }
+
+    const stream = await storage.read(key);
+
+    if (!stream) {
+        throw notFound('Attachment not found');
+    }
+
+    // Only cached briefly and privately, so that hiding or deleting the post takes its images down
+    res.type(path.extname(key));
+    res.set('Cache-Control', 'private, max-age=300');
+    res.set('X-Content-Type-Options', 'nosniff');
+    stream.on('error', () => res.destroy());
+    stream.pipe(res);
+});
+
+export default router;
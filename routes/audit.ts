@@ -0,0 +1,102 @@
+import express, { Request, Response } from 'express';
+import AuditLog from '../models/auditLog';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { validate, validated } from '../middleware/validate';
+import { escapeRegExp } from '../utils/search';
+import { listAuditSchemas } from '../schemas/audit';
+
+const router = express.Router();
+
+/**
+ * @openapi
+ * /audit:
+ *   get:
+ *     summary: Query the audit log (Admin only)
+ *     description: Returns audit log entries of privileged actions, newest first, optionally filtered. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - Audit
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ListAudit
+ *     responses:
+ *       200:
+ *         description: Audit log entries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditLogEntry'
+ *                 currentPage:
+ *                   type: integer
+ *                   example: 1
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 2
+ *                 totalEntries:
+ *                   type: integer
+ *                   example: 37
+ *       400:
+ *         description: Invalid date in from/to
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', authenticate, requireAdmin, validate(listAuditSchemas), async (req: Request, res: Response) => {
+    const { page, actor, action, targetType, targetId, from, to } = validated<typeof listAuditSchemas>(req).query;
+    const limit = 50;
+    const skip = (page - 1) * limit;
+
+    const filter: Record<string, unknown> = {};
+    if (actor) filter.actor = actor;
+    if (targetType) filter.targetType = targetType;
+    if (targetId) filter.targetId = targetId;
+    if (action) {
+        filter.action = action.endsWith('.')
+            ? { $regex: `^${escapeRegExp(action)}` }
+            : action;
+    }
+
+    if (from || to) {
+        filter.createdAt = {
+            ...(from && { $gte: from }),
+            ...(to && { $lte: to }),
+        };
+    }
+
+    const [entries, total] = await Promise.all([
+        AuditLog.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit),
+        AuditLog.countDocuments(filter),
+    ]);
+
+    res.json({
+        entries,
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalEntries: total,
+    });
+});
+
+export default router;
@@ -0,0 +1,405 @@
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import User from '../models/user';
+import { authenticate } from '../middleware/auth';
+import { authLimit, sessionLimit, writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { issueTokens, revokeRefreshToken, revokeUserTokens, rotateRefreshToken } from '../services/tokens';
+import { buildAuthUrl, createLinkState, fetchGoogleProfile, verifyLinkState } from '../services/google';
+import { isSelfDeleted, reactivateUser } from '../services/accounts';
+import { hashPassword, verifyPassword } from '../utils/passwords';
+import { badRequest, conflict, forbidden, notFound, unauthorized } from '../utils/errors';
+import { completeGoogleLinkSchemas, loginSchemas, refreshTokenSchemas, registerSchemas } from '../schemas/auth';
+
+const router = express.Router();
+
+// Compared against when the email is unknown so that failed logins take the same time either way
+const dummyPasswordHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+/**
+ * @openapi
+ * /auth/register:
+ *   post:
+ *     summary: Create a local account
+ *     description: |
+ *       Registers a user with email and password and signs them in. Accounts work without Google, a Google
+ *       identity can be linked later with `POST /auth/google/link`.
+ *     tags:
+ *       - Authentication
+ *     security: []
+ *     x-validation: Register
+ *     responses:
+ *       201:
+ *         description: Account created, returns a token pair
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TokenPair'
+ *       400:
+ *         description: Invalid email, password or name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: A local account with this email already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/register', authLimit, validate(registerSchemas), async (req: Request, res: Response) => {
+    const { body } = validated<typeof registerSchemas>(req);
+
+    if (await User.exists({ email: body.email, passwordHash: { $exists: true } })) {
+        throw conflict('An account with this email already exists');
+    }
+
+    const user = await User.create({
+        uid: crypto.randomUUID(),
+        name: body.name,
+        email: body.email,
+        passwordHash: await hashPassword(body.password),
+        role: 'user',
+    });
+
+    res.status(201).json(await issueTokens(user));
+});
+
+/**
+ * @openapi
+ * /auth/login:
+ *   post:
+ *     summary: Sign in with email and password
+ *     description: Signs in to a local account and returns the same token pair as the Google login. Signing in reactivates an account the user deleted themselves if it has not been purged yet.
+ *     tags:
+ *       - Authentication
+ *     security: []
+ *     x-validation: Login
+ *     responses:
+ *       200:
+ *         description: Signed in, returns a token pair
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TokenPair'
+ *       400:
+ *         description: Email and password are required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Invalid email or password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: The account has been deleted by an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/login', authLimit, validate(loginSchemas), async (req: Request, res: Response) => {
+    const { body } = validated<typeof loginSchemas>(req);
+
+    const user = await User.findOne({ email: body.email, passwordHash: { $exists: true } }).select('+passwordHash');
+    const valid = await verifyPassword(body.password, user?.passwordHash || await dummyPasswordHash);
+
+    if (!user || !valid) {
+        throw unauthorized('Invalid email or password');
+    }
+
+    if (isSelfDeleted(user)) {
+        await reactivateUser(user);
+    } else if (user.deletedAt) {
+        throw forbidden('This account has been deleted');
+    }
+
+    res.json(await issueTokens(user));
+});
+
+/**
+ * @openapi
+ * /auth/google/link:
+ *   post:
+ *     summary: Get a URL to link a Google account
+ *     description: |
+ *       Returns a Google sign-in URL that links the chosen Google account to the current user instead of signing in.
+ *       Google redirects back to the frontend with `#linkCode=...&linkState=...`, which are sent to `POST /auth/google/link/complete`.
+ *       Afterwards the user can sign in with either method. The URL is valid for 10 minutes. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Google OAuth URL returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 url:
+ *                   type: string
+ *                   example: https://accounts.google.com/o/oauth2/v2/auth?...
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post('/google/link', authenticate, authLimit, (req: Request, res: Response) => {
+    res.json({ url: buildAuthUrl(createLinkState(req.user!.userId)) });
+});
+
+/**
+ * @openapi
+ * /auth/google/link/complete:
+ *   post:
+ *     summary: Link a Google account
+ *     description: |
+ *       Finishes linking started with `POST /auth/google/link`. Only the user who requested the link URL can complete it,
+ *       so a link URL sent to someone else cannot attach their Google account. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: CompleteGoogleLink
+ *     responses:
+ *       200:
+ *         description: Google account linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Google account linked successfully
+ *       400:
+ *         description: Invalid or expired state, invalid code or incomplete Google profile
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: The link was requested by another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The Google account is already linked to another user, or the account already has another Google account linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/google/link/complete', authenticate, authLimit, validate(completeGoogleLinkSchemas), async (req: Request, res: Response) => {
+    const { body } = validated<typeof completeGoogleLinkSchemas>(req);
+
+    const userId = verifyLinkState(body.state);
+    if (!userId) throw badRequest('Invalid or expired state');
+    if (userId !== req.user!.userId) {
+        throw forbidden('This link was requested by another user');
+    }
+
+    const user = await User.findOne({ uid: userId, deletedAt: null });
+    if (!user) throw notFound('User not found');
+
+    const profile = await fetchGoogleProfile(body.code);
+
+    const owner = await User.findOne({ googleId: profile.sub });
+    if (owner && owner.uid !== user.uid) {
+        throw conflict('This Google account is already linked to another user');
+    }
+    if (user.googleId && user.googleId !== profile.sub) {
+        throw conflict('A different Google account is already linked');
+    }
+
+    user.googleId = profile.sub;
+    if (!user.picture) user.picture = profile.picture || '';
+    await user.save();
+
+    res.json({ message: 'Google account linked successfully' });
+});
+
+/**
+ * @openapi
+ * /auth/refresh:
+ *   post:
+ *     summary: Refresh the access token
+ *     description: |
+ *       Exchanges a refresh token for a new access token and a new refresh token. Each refresh token can only be used once;
+ *       reusing an already exchanged refresh token revokes all sessions of its owner.
+ *     tags:
+ *       - Authentication
+ *     security: []
+ *     x-validation: RefreshToken
+ *     responses:
+ *       200:
+ *         description: New token pair issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TokenPair'
+ *       400:
+ *         description: Refresh token is required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Refresh token is invalid, expired or revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/refresh', sessionLimit, validate(refreshTokenSchemas), async (req: Request, res: Response) => {
+    const { refreshToken } = validated<typeof refreshTokenSchemas>(req).body;
+
+    const tokens = await rotateRefreshToken(refreshToken);
+
+    if (!tokens) {
+        throw unauthorized('Invalid refresh token');
+    }
+
+    res.json(tokens);
+});
+
+/**
+ * @openapi
+ * /auth/logout:
+ *   post:
+ *     summary: Log out the current session
+ *     description: Revokes the given refresh token. The access token stays valid until it expires, so the frontend should discard it.
+ *     tags:
+ *       - Authentication
+ *     security: []
+ *     x-validation: RefreshToken
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Logged out successfully
+ *       400:
+ *         description: Refresh token is required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/logout', sessionLimit, validate(refreshTokenSchemas), async (req: Request, res: Response) => {
+    const { refreshToken } = validated<typeof refreshTokenSchemas>(req).body;
+
+    await revokeRefreshToken(refreshToken);
+    res.json({ message: 'Logged out successfully' });
+});
+
+/**
+ * @openapi
+ * /auth/logout-all:
+ *   post:
+ *     summary: Log out all sessions
+ *     description: Revokes every refresh token and every access token of the authenticated user, including the one used for this request. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions logged out
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Logged out of all sessions
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/logout-all', authenticate, writeLimit, async (req: Request, res: Response) => {
+    await revokeUserTokens(req.user!.userId);
+    res.json({ message: 'Logged out of all sessions' });
+});
+
+export default router;
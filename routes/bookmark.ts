@@ -0,0 +1,141 @@
+import express, { Request, Response } from 'express';
+import Post from '../models/post';
+import Bookmark from '../models/bookmark';
+import { authenticate } from '../middleware/auth';
+import { writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { postVisibilityFilter } from '../utils/visibility';
+import { notFound } from '../utils/errors';
+import { bookmarkSchemas } from '../schemas/bookmark';
+
+const router = express.Router();
+
+/**
+ * @openapi
+ * /post/bookmark:
+ *   put:
+ *     summary: Bookmark a post
+ *     description: Saves a post to the caller's private bookmarks, see `GET /user/me/bookmarks`. Bookmarking a post twice has no effect. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Bookmarks
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: Bookmark
+ *     responses:
+ *       200:
+ *         description: Post bookmarked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Post bookmarked
+ *       400:
+ *         description: Missing or invalid post ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/post/bookmark', authenticate, writeLimit, validate(bookmarkSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof bookmarkSchemas>(req);
+
+    const post = await Post.findOne({ _id: query.id, ...postVisibilityFilter(req.user!) }).select('_id');
+
+    if (!post) {
+        throw notFound('Post not found');
+    }
+
+    await Bookmark.updateOne(
+        { post: post._id, user: req.user!.userId },
+        { $setOnInsert: { post: post._id, user: req.user!.userId } },
+        { upsert: true },
+    );
+
+    res.json({ message: 'Post bookmarked' });
+});
+
+/**
+ * @openapi
+ * /post/bookmark:
+ *   delete:
+ *     summary: Remove a bookmark
+ *     description: Removes a post from the caller's bookmarks. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Bookmarks
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: Bookmark
+ *     responses:
+ *       200:
+ *         description: Bookmark removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Bookmark removed
+ *       400:
+ *         description: Missing or invalid post ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Bookmark not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/post/bookmark', authenticate, writeLimit, validate(bookmarkSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof bookmarkSchemas>(req);
+
+    const { deletedCount } = await Bookmark.deleteOne({ post: query.id, user: req.user!.userId });
+
+    if (deletedCount === 0) {
+        throw notFound('Bookmark not found');
+    }
+
+    res.json({ message: 'Bookmark removed' });
+});
+
+export default router;
@@ -0,0 +1,325 @@
+import express, { Request, Response } from 'express';
+import Category from '../models/category';
+import Post from '../models/post';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { validate, validated } from '../middleware/validate';
+import { publicPostFilter } from '../utils/visibility';
+import { recordAudit, snapshot } from '../services/audit';
+import { badRequest, conflict, notFound } from '../utils/errors';
+import { categoryIdSchemas, createCategorySchemas, updateCategorySchemas } from '../schemas/category';
+
+const router = express.Router();
+
+const slugify = (value: string) => value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * @openapi
+ * /categories:
+ *   get:
+ *     summary: List categories with post counts
+ *     description: Returns all categories sorted by name, each with the number of posts assigned to it. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Categories
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Categories retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 categories:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Category'
+ *                       - type: object
+ *                         properties:
+ *                           postCount:
+ *                             type: integer
+ *                             example: 12
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/categories', authenticate, async (_req: Request, res: Response) => {
+    const [categories, counts] = await Promise.all([
+        Category.find().sort({ name: 1 }),
+        Post.aggregate<{ _id: unknown; count: number }>([
+            { $match: { category: { $ne: null }, ...publicPostFilter() } },
+            { $group: { _id: '$category', count: { $sum: 1 } } },
+        ]),
+    ]);
+
+    const countByCategory = new Map(counts.map((entry) => [String(entry._id), entry.count]));
+
+    res.json({
+        categories: categories.map((category) => ({
+            ...category.toObject(),
+            postCount: countByCategory.get(String(category._id)) || 0,
+        })),
+    });
+});
+
+/**
+ * @openapi
+ * /category:
+ *   post:
+ *     summary: Create a category (Admin only)
+ *     description: Creates a new category. The slug is derived from the name when not given. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - Categories
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: CreateCategory
+ *     responses:
+ *       201:
+ *         description: Category created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Category created successfully
+ *                 category:
+ *                   $ref: '#/components/schemas/Category'
+ *       400:
+ *         description: Name is required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: A category with this slug already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/category', authenticate, requireAdmin, validate(createCategorySchemas), async (req: Request, res: Response) => {
+    const { body } = validated<typeof createCategorySchemas>(req);
+
+    const slug = slugify(body.slug || body.name);
+    if (!slug) {
+        throw badRequest('Name must contain at least one letter or digit');
+    }
+
+    if (await Category.exists({ slug })) {
+        throw conflict('A category with this slug already exists');
+    }
+
+    const category = await Category.create({ name: body.name, slug, description: body.description });
+    await recordAudit({
+        actor: req.user!.userId,
+        action: 'category.create',
+        targetType: 'category',
+        targetId: String(category._id),
+        after: snapshot(category),
+    });
+    res.status(201).json({ message: 'Category created successfully', category });
+});
+
+/**
+ * @openapi
+ * /category:
+ *   put:
+ *     summary: Update a category (Admin only)
+ *     description: Updates a category's name, slug and/or description. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - Categories
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: UpdateCategory
+ *     responses:
+ *       200:
+ *         description: Category updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Category updated successfully
+ *                 category:
+ *                   $ref: '#/components/schemas/Category'
+ *       400:
+ *         description: Missing or invalid category ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Category not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: A category with this slug already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/category', authenticate, requireAdmin, validate(updateCategorySchemas), async (req: Request, res: Response) => {
+    const { query, body } = validated<typeof updateCategorySchemas>(req);
+
+    const category = await Category.findById(query.id);
+
+    if (!category) {
+        throw notFound('Category not found');
+    }
+
+    const before = snapshot(category);
+    if (body.name) category.name = body.name;
+    if (body.description !== undefined) category.description = body.description;
+    if (body.slug) {
+        const newSlug = slugify(body.slug);
+        if (newSlug !== category.slug && await Category.exists({ slug: newSlug })) {
+            throw conflict('A category with this slug already exists');
+        }
+        category.slug = newSlug;
+    }
+
+    await category.save();
+    await recordAudit({
+        actor: req.user!.userId,
+        action: 'category.update',
+        targetType: 'category',
+        targetId: String(category._id),
+        before,
+        after: snapshot(category),
+    });
+    res.json({ message: 'Category updated successfully', category });
+});
+
+/**
+ * @openapi
+ * /category:
+ *   delete:
+ *     summary: Delete a category (Admin only)
+ *     description: Deletes a category. Posts assigned to it are kept and become uncategorized. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - Categories
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: CategoryId
+ *     responses:
+ *       200:
+ *         description: Category deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Category deleted successfully
+ *       400:
+ *         description: Missing or invalid category ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Category not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/category', authenticate, requireAdmin, validate(categoryIdSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof categoryIdSchemas>(req);
+
+    const category = await Category.findByIdAndDelete(query.id);
+
+    if (!category) {
+        throw notFound('Category not found');
+    }
+
+    await Post.updateMany({ category: category._id }, { $unset: { category: 1 } });
+    await recordAudit({
+        actor: req.user!.userId,
+        action: 'category.delete',
+        targetType: 'category',
+        targetId: String(category._id),
+        before: snapshot(category),
+    });
+    res.json({ message: 'Category deleted successfully' });
+});
+
+export default router;
@@ -0,0 +1,349 @@
+import express, { Request, Response } from 'express';
+import Comment from '../models/comment';
+import Post from '../models/post';
+import User from '../models/user';
+import { authenticate } from '../middleware/auth';
+import { writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { postVisibilityFilter } from '../utils/visibility';
+import { attachAuthors, trashedUserIds } from '../services/authors';
+import { badRequest, forbidden, notFound } from '../utils/errors';
+import { commentIdSchemas, createCommentSchemas, listCommentsSchemas, updateCommentSchemas } from '../schemas/comment';
+
+const router = express.Router();
+
+const COMMENT_AUTHOR_FIELDS = 'uid name picture role';
+
+/**
+ * @openapi
+ * /comments:
+ *   get:
+ *     summary: Get paginated comments of a post
+ *     description: Returns a page of top-level comments on a post, oldest first, each with all of its replies. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Comments
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ListComments
+ *     responses:
+ *       200:
+ *         description: Comments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 comments:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Comment'
+ *                       - type: object
+ *                         properties:
+ *                           replies:
+ *                             type: array
+ *                             items:
+ *                               $ref: '#/components/schemas/Comment'
+ *                 currentPage:
+ *                   type: integer
+ *                   example: 1
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 3
+ *                 totalComments:
+ *                   type: integer
+ *                   example: 24
+ *       400:
+ *         description: Missing or invalid post ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/comments', authenticate, validate(listCommentsSchemas), async (req: Request, res: Response) => {
+    const { postId, page } = validated<typeof listCommentsSchemas>(req).query;
+    const limit = 10;
+    const skip = (page - 1) * limit;
+
+    if (!await Post.exists({ _id: postId, ...postVisibilityFilter(req.user!) })) {
+        throw notFound('Post not found');
+    }
+
+    // Comments of users in the trash come back when the user is restored
+    const author = { $nin: await trashedUserIds() };
+    const [comments, total] = await Promise.all([
+        Comment.find({ post: postId, parent: null, author })
+            .sort({ createdAt: 1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        Comment.countDocuments({ post: postId, parent: null, author }),
+    ]);
+
+    const replies = await Comment.find({ parent: { $in: comments.map((comment) => comment._id) }, author })
+        .sort({ createdAt: 1 })
+        .lean();
+
+    const [commentsWithAuthors, repliesWithAuthors] = await Promise.all([
+        attachAuthors(comments, COMMENT_AUTHOR_FIELDS),
+        attachAuthors(replies, COMMENT_AUTHOR_FIELDS),
+    ]);
+
+    res.json({
+        comments: commentsWithAuthors.map((comment) => ({
+            ...comment,
+            replies: repliesWithAuthors.filter((reply) => String(reply.parent) === String(comment._id)),
+        })),
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalComments: total,
+    });
+});
+
+/**
+ * @openapi
+ * /comment:
+ *   post:
+ *     summary: Comment on a post
+ *     description: Adds a comment to a post, or a reply when `parentId` is given. Replies can only be made to top-level comments. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Comments
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: CreateComment
+ *     responses:
+ *       201:
+ *         description: Comment created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Comment created successfully
+ *                 comment:
+ *                   $ref: '#/components/schemas/Comment'
+ *       400:
+ *         description: Post ID and content are required, or the parent comment is itself a reply
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post or parent comment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/comment', authenticate, writeLimit, validate(createCommentSchemas), async (req: Request, res: Response) => {
+    const { postId, parentId, content } = validated<typeof createCommentSchemas>(req).body;
+
+    if (!await Post.exists({ _id: postId, ...postVisibilityFilter(req.user!) })) {
+        throw notFound('Post not found');
+    }
+
+    if (parentId) {
+        const parent = await Comment.findById(parentId);
+
+        if (!parent || String(parent.post) !== postId || !await User.exists({ uid: parent.author, deletedAt: null })) {
+            throw notFound('Parent comment not found');
+        }
+
+        if (parent.parent) {
+            throw badRequest('Replies can only be made to top-level comments');
+        }
+    }
+
+    const comment = await Comment.create({
+        post: postId,
+        parent: parentId || null,
+        author: req.user!.userId,
+        content,
+    });
+
+    res.status(201).json({ message: 'Comment created successfully', comment });
+});
+
+/**
+ * @openapi
+ * /comment:
+ *   put:
+ *     summary: Edit a comment
+ *     description: Updates a comment's content. Only the comment author or admin can edit. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Comments
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: UpdateComment
+ *     responses:
+ *       200:
+ *         description: Comment updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Comment updated successfully
+ *                 comment:
+ *                   $ref: '#/components/schemas/Comment'
+ *       400:
+ *         description: Comment ID and content are required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to edit this comment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Comment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/comment', authenticate, writeLimit, validate(updateCommentSchemas), async (req: Request, res: Response) => {
+    const { query, body } = validated<typeof updateCommentSchemas>(req);
+
+    const comment = await Comment.findById(query.id);
+
+    if (!comment) {
+        throw notFound('Comment not found');
+    }
+
+    if (comment.author !== req.user!.userId && req.user!.role !== 'admin') {
+        throw forbidden('Not authorized to edit this comment');
+    }
+
+    comment.content = body.content;
+
+    await comment.save();
+    res.json({ message: 'Comment updated successfully', comment });
+});
+
+/**
+ * @openapi
+ * /comment:
+ *   delete:
+ *     summary: Delete a comment
+ *     description: Deletes a comment together with its replies. Only the comment author or admin can delete. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Comments
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: CommentId
+ *     responses:
+ *       200:
+ *         description: Comment deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Comment deleted successfully
+ *       400:
+ *         description: Missing or invalid comment ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to delete this comment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Comment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/comment', authenticate, writeLimit, validate(commentIdSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof commentIdSchemas>(req);
+
+    const comment = await Comment.findById(query.id);
+
+    if (!comment) {
+        throw notFound('Comment not found');
+    }
+
+    if (comment.author !== req.user!.userId && req.user!.role !== 'admin') {
+        throw forbidden('Not authorized to delete this comment');
+    }
+
+    await Comment.deleteMany({ $or: [{ _id: comment._id }, { parent: comment._id }] });
+    res.json({ message: 'Comment deleted successfully' });
+});
+
+export default router;
@@ -0,0 +1,111 @@
+import express, { Request, Response } from 'express';
+import { authenticateStream } from '../middleware/auth';
+import { sseConnections } from '../services/metrics';
+import { PostEvent, postEventFor, postEventsSince, subscribePostEvents } from '../services/postEvents';
+
+const router = express.Router();
+
+const HEARTBEAT_SECONDS = parseInt(process.env.SSE_HEARTBEAT_SECONDS as string) || 25;
+const RETRY_MS = 3000;
+
+/**
+ * @openapi
+ * /events/posts:
+ *   get:
+ *     summary: Stream post changes
+ *     description: |
+ *       Server-Sent Events stream of `post.created`, `post.updated` and `post.deleted` events. Created and updated events carry
+ *       the post's ID, title, author's user ID, category, tags, status and timestamps, deleted events only the ID.
+ *       Events about posts the user is not allowed to see are not delivered, and an update that takes a post out of the user's
+ *       sight, such as hiding it in moderation, arrives as `post.deleted`. An update can also be the first event about a post,
+ *       e.g. when it is restored from the trash, so clients should insert posts they do not know yet. Scheduled posts arrive
+ *       as `post.created` within `SCHEDULED_POSTS_INTERVAL_SECONDS` (60 by default) of their publication date.
+ *
+ *       Browsers' `EventSource` cannot send headers, so the access token can also be passed as `access_token`.
+ *       The stream is closed when the access token expires, reconnect with a fresh one. A comment line is sent as a heartbeat
+ *       every `SSE_HEARTBEAT_SECONDS` (25 by default).
+ *
+ *       On reconnect, events missed since `Last-Event-ID` are replayed from an in-memory buffer of the latest
+ *       `POST_EVENTS_BUFFER_SIZE` events (500 by default). When they are no longer available, a `resync` event is sent first
+ *       and the client should reload the posts.
+ *     tags:
+ *       - Posts
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: access_token
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Access token, for clients that cannot send the Authorization header
+ *       - in: header
+ *         name: Last-Event-ID
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: ID of the last event received, sent automatically by `EventSource` when reconnecting
+ *         example: lx2k9f3a-42
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 id: lx2k9f3a-43
+ *                 event: post.created
+ *                 data: {"_id":"507f1f77bcf86cd799439011","title":"Parking lot closed on Monday","status":"published"}
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/events/posts', authenticateStream, (req: Request, res: Response) => {
+    const viewer = req.user!;
+
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Keeps reverse proxies such as nginx from buffering the stream
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const send = (published: PostEvent) => {
+        const event = postEventFor(published, viewer);
+        if (!event) return;
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    };
+
+    const lastEventId = req.get('Last-Event-ID');
+    if (lastEventId) {
+        const missed = postEventsSince(lastEventId);
+        if (missed) {
+            missed.forEach(send);
+        } else {
+            res.write('event: resync\ndata: {}\n\n');
+        }
+    }
+
+    const unsubscribe = subscribePostEvents(send);
+    sseConnections.inc();
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_SECONDS * 1000);
+    const expiry = viewer.exp
+        ? setTimeout(() => res.end(), Math.max(0, viewer.exp * 1000 - Date.now()))
+        : null;
+
+    req.on('close', () => {
+        unsubscribe();
+        sseConnections.dec();
+        clearInterval(heartbeat);
+        if (expiry) clearTimeout(expiry);
+    });
+});
+
+export default router;
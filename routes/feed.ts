@@ -0,0 +1,219 @@
+import express, { Request, Response } from 'express';
+import { QueryFilter } from 'mongoose';
+import Post, { IPost } from '../models/post';
+import User from '../models/user';
+import { authenticate, authenticateFeed } from '../middleware/auth';
+import { writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { serializePostDetail } from '../utils/posts';
+import { FEED_CONTENT_TYPES, FEED_FORMATS, renderFeed } from '../utils/feed';
+import { publicPostFilter } from '../utils/visibility';
+import { apiBaseUrl } from '../utils/urls';
+import { attachAuthors } from '../services/authors';
+import { issueFeedToken, revokeFeedToken } from '../services/tokens';
+import { notFound } from '../utils/errors';
+import { feedSchemas } from '../schemas/feed';
+
+const router = express.Router();
+
+const FEED_SIZE = 20;
+const FEED_MAX_AGE_SECONDS = parseInt(process.env.FEED_MAX_AGE_SECONDS as string) || 300;
+
+/**
+ * @openapi
+ * /feeds/{format}:
+ *   get:
+ *     summary: Feed of the latest posts
+ *     description: |
+ *       Returns the latest published posts as RSS 2.0 (`rss`), Atom 1.0 (`atom`) or JSON Feed (`json`), optionally limited to one author.
+ *       Feed readers that cannot send an Authorization header can pass the user's secret feed token as `token` instead,
+ *       see `PUT /user/me/feed-token`. Responses carry `ETag`, `Last-Modified` and `Cache-Control` headers and
+ *       conditional requests are answered with 304 Not Modified.
+ *     tags:
+ *       - Feeds
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     x-validation: Feed
+ *     responses:
+ *       200:
+ *         description: Feed rendered successfully
+ *         content:
+ *           application/rss+xml:
+ *             schema:
+ *               type: string
+ *           application/atom+xml:
+ *             schema:
+ *               type: string
+ *           application/feed+json:
+ *             schema:
+ *               type: object
+ *       304:
+ *         description: The feed has not changed since the cached copy
+ *       400:
+ *         description: Unknown feed format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required, invalid token or invalid feed token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Author not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/feeds/:format', authenticateFeed, validate(feedSchemas), async (req: Request, res: Response) => {
+    const { params, query } = validated<typeof feedSchemas>(req);
+
+    const filter: QueryFilter<IPost> = publicPostFilter();
+    let subtitle: string | undefined;
+
+    if (query.author) {
+        const author = await User.findOne({ uid: query.author, deletedAt: null }).select('name');
+        if (!author) {
+            throw notFound('Author not found');
+        }
+        filter.author = query.author;
+        subtitle = author.name;
+    }
+
+    const posts = await Post.find(filter)
+        .populate<{ category: { name: string } | null }>('category', 'name')
+        .sort({ publishedAt: -1, _id: -1 })
+        .limit(FEED_SIZE)
+        .lean();
+    const withAuthors = await attachAuthors(posts, 'uid name');
+
+    // The token stays out of the feed's self link
+    const path = `/feeds/${params.format}${query.author ? `?author=${encodeURIComponent(query.author)}` : ''}`;
+    const baseUrl = apiBaseUrl(req);
+    const body = renderFeed(params.format, withAuthors.map((post) => {
+        const serialized = serializePostDetail(post, baseUrl);
+        return { ...serialized, category: post.category, author: post.author, image: serialized.attachments[0]?.url };
+    }), baseUrl, path, subtitle);
+
+    const lastModified = withAuthors.reduce((latest, post) => Math.max(latest, post.updatedAt.getTime()), 0);
+    if (lastModified) res.set('Last-Modified', new Date(lastModified).toUTCString());
+    res.set('Cache-Control', `private, max-age=${FEED_MAX_AGE_SECONDS}`);
+    res.set('Vary', 'Authorization');
+    res.type(FEED_CONTENT_TYPES[params.format]);
+
+    // res.send adds a weak ETag and answers conditional requests with 304
+    res.send(body);
+});
+
+/**
+ * @openapi
+ * /user/me/feed-token:
+ *   put:
+ *     summary: Create or rotate the feed token
+ *     description: |
+ *       Generates a new secret feed token for the current user and returns it together with ready-to-use feed URLs.
+ *       Any previous token stops working. The token is only shown once. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Feeds
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Feed token created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 feedToken:
+ *                   type: string
+ *                   example: 3q2-7wAAAAB2c1lQp1c0nY4w2mBq9yLhZ1xR7k8uTgE
+ *                 feeds:
+ *                   type: object
+ *                   properties:
+ *                     rss:
+ *                       type: string
+ *                       example: https://api.example.com/feeds/rss?token=3q2-7wAAAAB2c1lQp1c0nY4w2mBq9yLhZ1xR7k8uTgE
+ *                     atom:
+ *                       type: string
+ *                       example: https://api.example.com/feeds/atom?token=3q2-7wAAAAB2c1lQp1c0nY4w2mBq9yLhZ1xR7k8uTgE
+ *                     json:
+ *                       type: string
+ *                       example: https://api.example.com/feeds/json?token=3q2-7wAAAAB2c1lQp1c0nY4w2mBq9yLhZ1xR7k8uTgE
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/user/me/feed-token', authenticate, writeLimit, async (req: Request, res: Response) => {
+    const feedToken = await issueFeedToken(req.user!.userId);
+    const baseUrl = apiBaseUrl(req);
+
+    res.json({
+        feedToken,
+        feeds: Object.fromEntries(FEED_FORMATS.map((format) => [format, `${baseUrl}/feeds/${format}?token=${feedToken}`])),
+    });
+});
+
+/**
+ * @openapi
+ * /user/me/feed-token:
+ *   delete:
+ *     summary: Revoke the feed token
+ *     description: Invalidates the current user's feed token, feed URLs containing it stop working. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Feeds
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Feed token revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Feed token revoked
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/user/me/feed-token', authenticate, writeLimit, async (req: Request, res: Response) => {
+    await revokeFeedToken(req.user!.userId);
+    res.json({ message: 'Feed token revoked' });
+});
+
+export default router;
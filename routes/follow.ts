@@ -0,0 +1,279 @@
+import express, { Request, Response } from 'express';
+import { QueryFilter } from 'mongoose';
+import Follow, { IFollow } from '../models/follow';
+import User from '../models/user';
+import { authenticate } from '../middleware/auth';
+import { writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { followersFilter, followingFilter } from '../services/follows';
+import { badRequest, notFound } from '../utils/errors';
+import { followUserSchemas, listFollowsSchemas } from '../schemas/follow';
+
+const router = express.Router();
+
+const FOLLOW_USER_FIELDS = 'uid name picture';
+
+// Returns one page of the users on `side` of the follows matched by `filter`, most recent first
+const listFollows = async (filter: QueryFilter<IFollow>, side: 'follower' | 'following', page: number) => {
+    const limit = 20;
+    const skip = (page - 1) * limit;
+
+    const [follows, total] = await Promise.all([
+        Follow.find(filter)
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        Follow.countDocuments(filter),
+    ]);
+
+    const users = await User.find({ uid: { $in: follows.map((follow) => follow[side]) } })
+        .select(FOLLOW_USER_FIELDS)
+        .lean();
+    const usersById = new Map(users.map((user) => [user.uid, user]));
+
+    return {
+        users: follows.map((follow) => ({ ...usersById.get(follow[side]), followedAt: follow.createdAt })),
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalUsers: total,
+    };
+};
+
+/**
+ * @openapi
+ * /user/follow:
+ *   put:
+ *     summary: Follow an author
+ *     description: Adds an author to the current user's followed authors, whose posts make up `GET /posts/feed`. Following an author twice has no effect. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Follows
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: FollowUser
+ *     responses:
+ *       200:
+ *         description: Author followed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: User followed
+ *       400:
+ *         description: Missing user ID or attempt to follow yourself
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/user/follow', authenticate, writeLimit, validate(followUserSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof followUserSchemas>(req);
+
+    if (query.id === req.user!.userId) {
+        throw badRequest('You cannot follow yourself');
+    }
+
+    if (!await User.exists({ uid: query.id, deletedAt: null })) {
+        throw notFound('User not found');
+    }
+
+    await Follow.updateOne(
+        { follower: req.user!.userId, following: query.id },
+        { $setOnInsert: { follower: req.user!.userId, following: query.id } },
+        { upsert: true },
+    );
+
+    res.json({ message: 'User followed' });
+});
+
+/**
+ * @openapi
+ * /user/follow:
+ *   delete:
+ *     summary: Unfollow an author
+ *     description: Removes an author from the current user's followed authors. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Follows
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: FollowUser
+ *     responses:
+ *       200:
+ *         description: Author unfollowed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: User unfollowed
+ *       400:
+ *         description: Missing user ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Not following this user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/user/follow', authenticate, writeLimit, validate(followUserSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof followUserSchemas>(req);
+
+    const { deletedCount } = await Follow.deleteOne({ follower: req.user!.userId, following: query.id });
+
+    if (deletedCount === 0) {
+        throw notFound('You are not following this user');
+    }
+
+    res.json({ message: 'User unfollowed' });
+});
+
+/**
+ * @openapi
+ * /user/followers:
+ *   get:
+ *     summary: List a user's followers
+ *     description: Returns the users following a user, most recent first. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Follows
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ListFollows
+ *     responses:
+ *       200:
+ *         description: Followers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FollowPage'
+ *       400:
+ *         description: Missing user ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/user/followers', authenticate, validate(listFollowsSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof listFollowsSchemas>(req);
+
+    if (!await User.exists({ uid: query.id, deletedAt: null })) {
+        throw notFound('User not found');
+    }
+
+    res.json(await listFollows(await followersFilter(query.id), 'follower', query.page));
+});
+
+/**
+ * @openapi
+ * /user/following:
+ *   get:
+ *     summary: List the authors a user follows
+ *     description: Returns the authors followed by a user, most recently followed first. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Follows
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ListFollows
+ *     responses:
+ *       200:
+ *         description: Followed authors retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FollowPage'
+ *       400:
+ *         description: Missing user ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/user/following', authenticate, validate(listFollowsSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof listFollowsSchemas>(req);
+
+    if (!await User.exists({ uid: query.id, deletedAt: null })) {
+        throw notFound('User not found');
+    }
+
+    res.json(await listFollows(await followingFilter(query.id), 'following', query.page));
+});
+
+export default router;
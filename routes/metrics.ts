@@ -0,0 +1,56 @@
+import express, { Request, Response } from 'express';
+import { metricsAccess } from '../middleware/metrics';
+import { registry } from '../services/metrics';
+
+const router = express.Router();
+
+/**
+ * @openapi
+ * /metrics:
+ *   get:
+ *     summary: Prometheus metrics
+ *     description: |
+ *       Returns metrics in the Prometheus text exposition format: request counts and latencies per route and status,
+ *       MongoDB command latencies, open requests and event streams, post and user totals and the Node.js process metrics.
+ *
+ *       Access requires `METRICS_TOKEN` as a bearer token, or a client address on `METRICS_ALLOWLIST`
+ *       (comma separated IP addresses and CIDR ranges). Without either only loopback addresses are allowed.
+ *     tags:
+ *       - Health
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Metrics returned successfully
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 # HELP http_requests_total HTTP requests by method, route and status code
+ *                 # TYPE http_requests_total counter
+ *                 http_requests_total{method="GET",route="/posts",status="200"} 42
+ *       401:
+ *         description: Metrics token required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Invalid metrics token or address not allowed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/metrics', metricsAccess, async (_req: Request, res: Response) => {
+    res.set('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+});
+
+export default router;
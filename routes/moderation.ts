@@ -0,0 +1,340 @@
+import express, { Request, Response } from 'express';
+import Post from '../models/post';
+import Report from '../models/report';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { recordAudit, snapshot } from '../services/audit';
+import { publishPostEvent } from '../services/postEvents';
+import { postStatus } from '../utils/visibility';
+import { badRequest, conflict, notFound } from '../utils/errors';
+import { handleReportSchemas, moderationQueueSchemas, reportPostSchemas } from '../schemas/moderation';
+
+const router = express.Router();
+
+// 0 disables hiding posts automatically
+const AUTO_HIDE_THRESHOLD = parseInt(process.env.REPORT_AUTO_HIDE_THRESHOLD as string) || 0;
+
+/**
+ * @openapi
+ * /post/report:
+ *   post:
+ *     summary: Report a post
+ *     description: |
+ *       Reports a post to the moderators. Each user can report a post once and cannot report their own posts.
+ *       When `REPORT_AUTO_HIDE_THRESHOLD` is set, the post is hidden automatically once it has that many open reports.
+ *       Requires JWT token in Authorization header.
+ *     tags:
+ *       - Moderation
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ReportPost
+ *     responses:
+ *       201:
+ *         description: Post reported successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Post reported successfully
+ *       400:
+ *         description: Post ID and reason are required, reason too long or own post
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Post already reported by this user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/post/report', authenticate, writeLimit, validate(reportPostSchemas), async (req: Request, res: Response) => {
+    const { query, body } = validated<typeof reportPostSchemas>(req);
+
+    const post = await Post.findOne({ _id: query.id, deletedAt: null });
+
+    if (!post || post.hidden || postStatus(post) !== 'published') {
+        throw notFound('Post not found');
+    }
+
+    if (post.author === req.user!.userId) {
+        throw badRequest('You cannot report your own post');
+    }
+
+    if (await Report.exists({ post: post._id, reporter: req.user!.userId })) {
+        throw conflict('You have already reported this post');
+    }
+
+    await Report.create({ post: post._id, reporter: req.user!.userId, reason: body.reason });
+
+    if (AUTO_HIDE_THRESHOLD > 0) {
+        const openReports = await Report.countDocuments({ post: post._id, status: 'open' });
+        if (openReports >= AUTO_HIDE_THRESHOLD) {
+            post.hidden = true;
+            post.hiddenAt = new Date();
+            post.hiddenBy = 'system';
+            await post.save();
+            publishPostEvent('post.updated', post);
+        }
+    }
+
+    res.status(201).json({ message: 'Post reported successfully' });
+});
+
+/**
+ * @openapi
+ * /moderation/queue:
+ *   get:
+ *     summary: Get the moderation queue (Admin only)
+ *     description: Returns reported posts with open reports, most reported first. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - Moderation
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ModerationQueue
+ *     responses:
+ *       200:
+ *         description: Moderation queue retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ModerationQueueItem'
+ *                 currentPage:
+ *                   type: integer
+ *                   example: 1
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 1
+ *                 totalItems:
+ *                   type: integer
+ *                   example: 4
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/moderation/queue', authenticate, requireAdmin, validate(moderationQueueSchemas), async (req: Request, res: Response) => {
+    const { page } = validated<typeof moderationQueueSchemas>(req).query;
+    const limit = 20;
+    const skip = (page - 1) * limit;
+
+    // Reports on trashed posts stay open in case the post is restored, but are left out of the queue.
+    // They are dropped before paginating so that pages and totals only count posts that are shown.
+    const withActivePost = (project: Record<string, 1>) => [
+        {
+            $lookup: {
+                from: Post.collection.name,
+                localField: '_id',
+                foreignField: '_id',
+                as: 'post',
+                pipeline: [
+                    { $match: { deletedAt: null } },
+                    { $project: project },
+                ],
+            },
+        },
+        { $unwind: '$post' },
+    ];
+
+    const [items, [totals]] = await Promise.all([
+        Report.aggregate([
+            { $match: { status: 'open' } },
+            { $sort: { createdAt: 1 } },
+            {
+                $group: {
+                    _id: '$post',
+                    reportCount: { $sum: 1 },
+                    lastReportedAt: { $max: '$createdAt' },
+                    reports: { $push: { _id: '$_id', reporter: '$reporter', reason: '$reason', createdAt: '$createdAt' } },
+                },
+            },
+            ...withActivePost({ title: 1, author: 1, hidden: 1, createdAt: 1 }),
+            { $sort: { reportCount: -1, lastReportedAt: -1 } },
+            { $skip: skip },
+            { $limit: limit },
+            { $project: { _id: 0 } },
+        ]),
+        Report.aggregate<{ total: number }>([
+            { $match: { status: 'open' } },
+            { $group: { _id: '$post' } },
+            ...withActivePost({ _id: 1 }),
+            { $count: 'total' },
+        ]),
+    ]);
+
+    const total = totals?.total || 0;
+
+    res.json({
+        items,
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalItems: total,
+    });
+});
+
+/**
+ * @openapi
+ * /moderation/report:
+ *   put:
+ *     summary: Handle a report (Admin only)
+ *     description: |
+ *       Acts on a report:
+ *       - `hide` hides the reported post and resolves all of its open reports
+ *       - `restore` makes the post visible again and dismisses all of its open reports
+ *       - `dismiss` dismisses only this report
+ *
+ *       Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - Moderation
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: HandleReport
+ *     responses:
+ *       200:
+ *         description: Report handled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Post hidden
+ *       400:
+ *         description: Report ID is required or invalid action
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Report or post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/moderation/report', authenticate, requireAdmin, validate(handleReportSchemas), async (req: Request, res: Response) => {
+    const { query, body: { action } } = validated<typeof handleReportSchemas>(req);
+
+    const report = await Report.findById(query.id);
+
+    if (!report) {
+        throw notFound('Report not found');
+    }
+
+    const resolution = { resolvedBy: req.user!.userId, resolvedAt: new Date() };
+
+    if (action === 'dismiss') {
+        const before = snapshot(report);
+        report.status = 'dismissed';
+        Object.assign(report, resolution);
+        await report.save();
+        await recordAudit({
+            actor: req.user!.userId,
+            action: 'report.dismiss',
+            targetType: 'report',
+            targetId: String(report._id),
+            before,
+            after: snapshot(report),
+        });
+        return res.json({ message: 'Report dismissed' });
+    }
+
+    const post = await Post.findOne({ _id: report.post, deletedAt: null });
+
+    if (!post) {
+        throw notFound('Post not found');
+    }
+
+    const before = snapshot(post);
+    if (action === 'hide') {
+        post.hidden = true;
+        post.hiddenAt = resolution.resolvedAt;
+        post.hiddenBy = req.user!.userId;
+    } else {
+        post.hidden = false;
+        post.hiddenAt = null;
+        post.hiddenBy = null;
+    }
+    await post.save();
+
+    await Report.updateMany(
+        { post: post._id, $or: [{ status: 'open' }, { _id: report._id }] },
+        { status: action === 'hide' ? 'resolved' : 'dismissed', ...resolution },
+    );
+    await recordAudit({
+        actor: req.user!.userId,
+        action: action === 'hide' ? 'post.hide' : 'post.unhide',
+        targetType: 'post',
+        targetId: String(post._id),
+        before,
+        after: snapshot(post),
+    });
+
+    publishPostEvent('post.updated', post);
+    res.json({ message: action === 'hide' ? 'Post hidden' : 'Post restored' });
+});
+
+export default router;
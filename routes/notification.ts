@@ -0,0 +1,226 @@
+import express, { Request, Response } from 'express';
+import { QueryFilter } from 'mongoose';
+import Notification, { INotification } from '../models/notification';
+import User from '../models/user';
+import { authenticate } from '../middleware/auth';
+import { writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { notFound } from '../utils/errors';
+import { listNotificationsSchemas, notificationIdSchemas } from '../schemas/notification';
+
+const router = express.Router();
+
+const ACTOR_FIELDS = 'uid name picture';
+
+/**
+ * @openapi
+ * /user/me/notifications:
+ *   get:
+ *     summary: List the current user's notifications
+ *     description: |
+ *       Returns the current user's notifications, newest first, together with the number of unread ones.
+ *       Users are notified when an admin edits or deletes one of their posts and when their role changes.
+ *       Requires JWT token in Authorization header.
+ *     tags:
+ *       - Notifications
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ListNotifications
+ *     responses:
+ *       200:
+ *         description: Notifications retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 notifications:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Notification'
+ *                 unreadCount:
+ *                   type: integer
+ *                   example: 2
+ *                 currentPage:
+ *                   type: integer
+ *                   example: 1
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 1
+ *                 totalNotifications:
+ *                   type: integer
+ *                   example: 7
+ *       400:
+ *         description: Invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/user/me/notifications', authenticate, validate(listNotificationsSchemas), async (req: Request, res: Response) => {
+    const { page, unread } = validated<typeof listNotificationsSchemas>(req).query;
+    const limit = 20;
+    const skip = (page - 1) * limit;
+
+    const filter: QueryFilter<INotification> = { recipient: req.user!.userId };
+    if (unread) filter.readAt = null;
+
+    const [notifications, total, unreadCount] = await Promise.all([
+        Notification.find(filter)
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        Notification.countDocuments(filter),
+        Notification.countDocuments({ recipient: req.user!.userId, readAt: null }),
+    ]);
+
+    const actors = await User.find({ uid: { $in: [...new Set(notifications.map((notification) => notification.actor))] } })
+        .select(ACTOR_FIELDS)
+        .lean();
+    const actorsById = new Map(actors.map((actor) => [actor.uid, actor]));
+
+    res.json({
+        notifications: notifications.map((notification) => ({
+            ...notification,
+            actor: actorsById.get(notification.actor) || null,
+        })),
+        unreadCount,
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalNotifications: total,
+    });
+});
+
+/**
+ * @openapi
+ * /user/me/notifications/read:
+ *   put:
+ *     summary: Mark a notification as read
+ *     description: Marks one of the current user's notifications as read. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Notifications
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: NotificationId
+ *     responses:
+ *       200:
+ *         description: Notification marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Notification marked as read
+ *                 unreadCount:
+ *                   type: integer
+ *                   example: 1
+ *       400:
+ *         description: Missing or invalid notification ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Notification not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/user/me/notifications/read', authenticate, writeLimit, validate(notificationIdSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof notificationIdSchemas>(req);
+
+    const notification = await Notification.findOne({ _id: query.id, recipient: req.user!.userId });
+
+    if (!notification) {
+        throw notFound('Notification not found');
+    }
+
+    if (!notification.readAt) {
+        notification.readAt = new Date();
+        await notification.save();
+    }
+
+    const unreadCount = await Notification.countDocuments({ recipient: req.user!.userId, readAt: null });
+    res.json({ message: 'Notification marked as read', unreadCount });
+});
+
+/**
+ * @openapi
+ * /user/me/notifications/read-all:
+ *   put:
+ *     summary: Mark all notifications as read
+ *     description: Marks every unread notification of the current user as read. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Notifications
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notifications marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: All notifications marked as read
+ *                 updated:
+ *                   type: integer
+ *                   description: Number of notifications that were unread
+ *                   example: 3
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/user/me/notifications/read-all', authenticate, writeLimit, async (req: Request, res: Response) => {
+    const { modifiedCount } = await Notification.updateMany(
+        { recipient: req.user!.userId, readAt: null },
+        { readAt: new Date() },
+    );
+
+    res.json({ message: 'All notifications marked as read', updated: modifiedCount });
+});
+
+export default router;
@@ -1,11 +1,14 @@
+import crypto from 'crypto';
 import express, { Request, Response } from 'express';
-import { OAuth2Client } from 'google-auth-library';
-import jwt from 'jsonwebtoken';
 import User from '../models/user';
+import { issueTokens } from '../services/tokens';
+import { fetchGoogleProfile, verifyLinkState } from '../services/google';
+import { isSelfDeleted, reactivateUser } from '../services/accounts';
+import { authLimit } from '../middleware/rateLimit';
+import { badRequest, forbidden } from '../utils/errors';
 
 const router = express.Router();
 
-const redirectUrl = process.env.GOOGLE_REDIRECT_URL || 'http://localhost:3000/oauth';
 const frontendRedirect = process.env.FRONTEND_REDIRECT_URL || 'http://localhost:5173';
 
 /**
@@ -14,16 +17,22 @@ const frontendRedirect = process.env.FRONTEND_REDIRECT_URL || 'http://localhost:
  *   get:
  *     summary: Google OAuth callback
  *     description: |
- *       Handles Google OAuth callback, creates/updates user, and redirects to frontend with JWT token in URL hash.
- *       The frontend should extract the token from the URL hash and store it in sessionStorage.
+ *       Handles Google OAuth callback, creates/updates user, and redirects to frontend with a short-lived JWT access token
+ *       and a refresh token in URL hash. Signing in reactivates an account the user deleted themselves if it has not been purged yet.
+ *       The frontend should extract the tokens from the URL hash and store them in sessionStorage.
  *       
  *       **Authentication Flow:**
  *       1. User clicks login and is redirected to Google
  *       2. After Google authentication, user is redirected to this endpoint with a code
- *       3. This endpoint exchanges the code for user info and creates a JWT
- *       4. User is redirected to frontend with token: `{frontendUrl}#token={jwt}`
- *       5. Frontend extracts token and stores in sessionStorage
+ *       3. This endpoint exchanges the code for user info and creates a JWT and a refresh token
+ *       4. User is redirected to frontend with tokens: `{frontendUrl}#token={jwt}&refreshToken={refreshToken}`
+ *       5. Frontend extracts the tokens and stores them in sessionStorage
  *       6. Frontend sends token in Authorization header: `Bearer {token}`
+ *       7. When the access token expires, the frontend exchanges the refresh token at `POST /auth/refresh`
+ *
+ *       When `state` comes from `POST /auth/google/link`, the user is redirected to
+ *       `{frontendUrl}#linkCode={code}&linkState={state}` instead, and the frontend finishes linking the Google account
+ *       with `POST /auth/google/link/complete`.
  *     tags:
  *       - Authentication
  *     security: []
@@ -34,11 +43,17 @@ const frontendRedirect = process.env.FRONTEND_REDIRECT_URL || 'http://localhost:
  *         schema:
  *           type: string
  *         description: Google OAuth authorization code
+ *       - in: query
+ *         name: state
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: State returned with the URL from `POST /auth/google/link`
  *     responses:
  *       302:
- *         description: Redirects to frontend with JWT token in URL hash (#token=...)
+ *         description: Redirects to frontend with tokens in URL hash (#token=...&refreshToken=...) or with the link code and state
  *       400:
- *         description: Missing code or invalid Google profile
+ *         description: Missing code, invalid Google profile or invalid link state
  *         content:
  *           application/json:
  *             schema:
@@ -46,13 +61,27 @@ const frontendRedirect = process.env.FRONTEND_REDIRECT_URL || 'http://localhost:
  *             examples:
  *               missingCode:
  *                 value:
+ *                   code: BAD_REQUEST
  *                   message: Missing code
+ *                   details: null
  *               noToken:
  *                 value:
+ *                   code: BAD_REQUEST
  *                   message: No id_token returned
+ *                   details: null
  *               incompleteProfile:
  *                 value:
- *                   message: Incomplete Google profile missing sub/email/name
+ *                   code: BAD_REQUEST
+ *                   message: 'Incomplete Google profile: missing sub/email/name'
+ *                   details: null
+ *       403:
+ *         description: The account has been deleted by an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  *       500:
  *         description: Login failed
  *         content:
@@ -60,61 +89,54 @@ const frontendRedirect = process.env.FRONTEND_REDIRECT_URL || 'http://localhost:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/', async (req: Request, res: Response) => {
-    try {
-        const code = req.query.code as string;
-        if (!code) return res.status(400).json({ message: 'Missing code' });
+router.get('/', authLimit, async (req: Request, res: Response) => {
+    const code = req.query.code as string;
+    if (!code) throw badRequest('Missing code');
 
-        const client = new OAuth2Client(
-            process.env.GOOGLE_CLIENT_ID,
-            process.env.GOOGLE_CLIENT_SECRET,
-            redirectUrl
-        );
+    // A state from POST /auth/google/link is handed to the frontend, which finishes linking with
+    // POST /auth/google/link/complete as the signed-in user. Linking right here would let anyone who
+    // sends a victim their link URL attach the victim's Google identity to their own account.
+    if (req.query.state) {
+        const state = req.query.state as string;
+        if (!verifyLinkState(state)) throw badRequest('Invalid or expired state');
 
-        const { tokens } = await client.getToken(code);
-        if (!tokens.id_token) return res.status(400).json({ message: 'No id_token returned' });
+        return res.redirect(`${frontendRedirect}#linkCode=${encodeURIComponent(code)}&linkState=${encodeURIComponent(state)}`);
+    }
 
-        const ticket = await client.verifyIdToken({
-            idToken: tokens.id_token,
-            audience: process.env.GOOGLE_CLIENT_ID,
-        });
+    const payload = await fetchGoogleProfile(code);
 
-        const payload = ticket.getPayload();
-        if (!payload?.sub || !payload.email || !payload.name) {
-            return res.status(400).json({ message: 'Incomplete Google profile: missing sub/email/name' });
-        }
+    // Check if user already exists
+    let user = await User.findOne({ googleId: payload.sub }).select('+passwordHash');
 
-        // Check if user already exists
-        let user = await User.findOne({ googleId: payload.sub });
+    if (user && isSelfDeleted(user)) {
+        await reactivateUser(user);
+    } else if (user?.deletedAt) {
+        throw forbidden('This account has been deleted');
+    }
 
-        if (user) {
-            // User exists - update only name, email, picture
-            user.name = payload.name;
-            user.email = payload.email;
-            user.picture = payload.picture || '';
-            await user.save();
-        } else {
-            // New user - create with default role 'user'
-            user = await User.create({
-                googleId: payload.sub,
-                name: payload.name,
-                email: payload.email,
-                picture: payload.picture || '',
-                role: 'user',
-            });
-        }
+    if (user) {
+        // User exists - sync the Google profile without overwriting what the user changed,
+        // local accounts keep the email address they sign in with
+        if (!user.nameEditedAt) user.name = payload.name;
+        if (!user.passwordHash) user.email = payload.email;
+        user.picture = payload.picture || '';
+        await user.save();
+    } else {
+        // New user - create with default role 'user'
+        user = await User.create({
+            uid: crypto.randomUUID(),
+            googleId: payload.sub,
+            name: payload.name,
+            email: payload.email,
+            picture: payload.picture || '',
+            role: 'user',
+        });
+    }
 
-        const token = jwt.sign(
-            { userId: user.googleId, email: user.email, role: user.role },
-            process.env.JWT_SECRET!,
-            { expiresIn: '7d' }
-        );
+    const { token, refreshToken } = await issueTokens(user);
 
-        return res.redirect(`${frontendRedirect}#token=${token}`);
-    } catch (err) {
-        return res.status(500).json({ message: `Login failed ${err}` });
-    }
+    return res.redirect(`${frontendRedirect}#token=${token}&refreshToken=${refreshToken}`);
 });
 
 
-export default router;
\ No newline at end of file
+export default router;
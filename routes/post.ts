@@ -1,56 +1,216 @@
 import express, { Request, Response } from 'express';
-import Post from '../models/post';
-import { authenticate, requireAdmin } from '../middleware/auth';
-import User from '../models/user';
+import mongoose, { QueryFilter } from 'mongoose';
+import Post, { IAttachment, IPost } from '../models/post';
+import Category from '../models/category';
+import Follow from '../models/follow';
+import { authenticate } from '../middleware/auth';
+import { uploadImages } from '../middleware/upload';
+import { postLimit, writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { buildSnippet, extractSearchTerms, highlight } from '../utils/search';
+import { removeImages, storeImage } from '../utils/images';
+import { serializePost, serializePostDetail } from '../utils/posts';
+import { canViewPost, postStatus, postVisibilityFilter } from '../utils/visibility';
+import { recordAudit, snapshot } from '../services/audit';
+import { notify } from '../services/notifications';
+import { publishPostEvent } from '../services/postEvents';
+import { attachAuthors } from '../services/authors';
+import { serializeSavedPost } from '../services/posts';
+import { recordRevision } from '../services/revisions';
+import { reactionSummaries } from '../services/reactions';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { apiBaseUrl } from '../utils/urls';
+import { badRequest, conflict, forbidden, notFound } from '../utils/errors';
+import { createPostSchemas, listPostsSchemas, postIdSchemas, renewPostSchemas, updatePostSchemas } from '../schemas/post';
 
 const router = express.Router();
 
+// Throws unless the expiry lies in the future and after the publication date
+const checkSchedule = (publishAt?: Date | null, expiresAt?: Date | null) => {
+    if (!expiresAt) return;
+    if (expiresAt <= new Date()) {
+        throw badRequest('expiresAt must be in the future');
+    }
+    if (publishAt && expiresAt <= publishAt) {
+        throw badRequest('expiresAt must be after publishAt');
+    }
+};
+
+// Resolves a category ID or slug to an existing category ID
+const resolveCategory = async (value: string) => {
+    const category = mongoose.isValidObjectId(value)
+        ? await Category.findById(value)
+        : await Category.findOne({ slug: value.toLowerCase() });
+    return category ? category._id : null;
+};
+
+// Handler of the post listings, `scope` narrows the posts down before the query filters apply
+const listPosts = (scope?: (req: Request) => Promise<QueryFilter<IPost>>) => async (req: Request, res: Response) => {
+    const { query } = validated<typeof listPostsSchemas>(req);
+    const { page, limit, q } = query;
+    const skip = (page - 1) * limit;
+    const sort = query.sort || (q ? 'relevance' : 'date');
+
+    if (sort === 'relevance' && !q) {
+        throw badRequest('Relevance sorting requires a search query');
+    }
+
+    // Any cursor value, including an empty one for the first page, switches to cursor mode
+    const cursorMode = query.cursor !== undefined;
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+    if (cursorMode && sort !== 'date') {
+        throw badRequest('Cursor pagination requires sorting by date');
+    }
+    if (query.cursor && !cursor) {
+        throw badRequest('Invalid cursor');
+    }
+
+    const filter: QueryFilter<IPost> = { $and: [postVisibilityFilter(req.user!)] };
+    if (scope) filter.$and!.push(await scope(req));
+    if (q) filter.$text = { $search: q };
+    if (query.author) filter.author = query.author;
+
+    if (query.category) {
+        const categoryId = await resolveCategory(query.category);
+        if (!categoryId) {
+            throw notFound('Category not found');
+        }
+        filter.category = categoryId;
+    }
+
+    if (query.tag && query.tag.length > 0) {
+        filter.tags = { $all: query.tag };
+    }
+
+    if (query.from || query.to) {
+        filter.publishedAt = {};
+        if (query.from) filter.publishedAt.$gte = query.from;
+        if (query.to) filter.publishedAt.$lte = query.to;
+    }
+
+    // The _id tie-breaker keeps the order stable for posts published in the same millisecond
+    const pageFilter: QueryFilter<IPost> = cursor
+        ? {
+            ...filter,
+            $and: [...filter.$and!, {
+                $or: [
+                    { publishedAt: { $lt: cursor.publishedAt } },
+                    { publishedAt: cursor.publishedAt, _id: { $lt: cursor.id } },
+                ],
+            }],
+        }
+        : filter;
+
+    const postQuery = q
+        ? Post.find(pageFilter, { score: { $meta: 'textScore' } })
+        : Post.find(pageFilter);
+
+    const posts = await postQuery
+        .populate('category', 'name slug')
+        .sort(sort === 'relevance'
+            ? { score: { $meta: 'textScore' }, publishedAt: -1, _id: -1 }
+            : { publishedAt: -1, _id: -1 })
+        .skip(cursorMode ? 0 : skip)
+        .limit(limit + 1)
+        .lean();
+
+    const hasMore = posts.length > limit;
+    const pagePosts = posts.slice(0, limit);
+    const lastPost = pagePosts[pagePosts.length - 1];
+    const nextCursor = sort === 'date' && hasMore && lastPost ? encodeCursor(lastPost) : null;
+
+    const terms = extractSearchTerms(q);
+    const [withAuthors, reactions] = await Promise.all([
+        attachAuthors(pagePosts),
+        reactionSummaries(pagePosts.map((post) => post._id), req.user!.userId),
+    ]);
+    const postsWithAuthors = withAuthors.map((post) => ({
+        ...serializePost(post, apiBaseUrl(req)),
+        ...reactions.get(String(post._id)),
+        ...(q && {
+            highlights: {
+                title: highlight(post.title, terms),
+                content: buildSnippet(post.content, terms),
+            },
+        }),
+    }));
+
+    if (cursorMode) {
+        return res.json({ posts: postsWithAuthors, nextCursor, hasMore });
+    }
+
+    const total = await Post.countDocuments(filter);
+
+    res.json({ 
+        posts: postsWithAuthors, 
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalPosts: total,
+        nextCursor,
+    });
+};
+
 /**
  * @openapi
  * /posts:
  *   get:
  *     summary: Get paginated posts
- *     description: Returns a paginated list of posts with author information. Requires JWT token in Authorization header.
+ *     description: |
+ *       Returns a paginated list of posts with author information, reaction counts and the caller's own reaction. Posts carry a plain-text
+ *       `excerpt` instead of the full content, use `GET /post` for the content. Posts hidden by moderation, scheduled for later
+ *       (`publishAt`) or expired (`expiresAt`) are only listed for their author and admins. Requires JWT token in Authorization header.
+ *
+ *       When `q` is given, posts are matched against a full-text index on title and content and every
+ *       post in the response carries `highlights` with the matching terms wrapped in `<mark>` tags.
+ *
+ *       Two pagination modes are supported:
+ *       - **Page numbers** (default): pass `page`, the response contains `currentPage`, `totalPages` and `totalPosts`.
+ *       - **Cursor**: pass `cursor` (empty for the first page, then the returned `nextCursor`). The response contains
+ *         `nextCursor` and `hasMore` and stays stable while new posts are published. Only available when sorting by date.
  *     tags:
  *       - Posts
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *           minimum: 1
- *         description: Page number for pagination
- *         example: 1
+ *     x-validation: ListPosts
  *     responses:
  *       200:
  *         description: Posts retrieved successfully
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 posts:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Post'
- *                 currentPage:
- *                   type: integer
- *                   example: 1
- *                 totalPages:
- *                   type: integer
- *                   example: 5
- *                 totalPosts:
- *                   type: integer
- *                   example: 42
+ *               $ref: '#/components/schemas/PostPage'
+ *       400:
+ *         description: Invalid search, filter or pagination parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             examples:
+ *               invalidDate:
+ *                 value:
+ *                   code: VALIDATION_ERROR
+ *                   message: Request validation failed
+ *                   details:
+ *                     - location: query
+ *                       path: from
+ *                       message: Must be a valid date
+ *               invalidCursor:
+ *                 value:
+ *                   code: BAD_REQUEST
+ *                   message: Invalid cursor
+ *                   details: null
  *       401:
  *         description: Authentication required or invalid token
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Category not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Server error
  *         content:
@@ -58,45 +218,58 @@ const router = express.Router();
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/posts', authenticate, async (req: Request, res: Response) => {
-    try {
-        const page = parseInt(req.query.page as string) || 1;
-        const limit = 10;
-        const skip = (page - 1) * limit;
-
-        const posts = await Post.find()
-            .populate('author', 'name picture')
-            .sort({ createdAt: -1 })
-            .skip(skip)
-            .limit(limit);
-        
-        const postsWithAuthors = await Promise.all(
-            posts.map(async (post) => {
-                const author = await User.findOne({ googleId: post.author });
-                const postObj = post.toObject();
-                return {
-                    _id: postObj._id,
-                    title: postObj.title,
-                    content: postObj.content,
-                    createdAt: postObj.createdAt,
-                    updatedAt: postObj.updatedAt,
-                    author
-                };
-            })
-        );
-
-        const total = await Post.countDocuments();
-
-        res.json({ 
-            posts: postsWithAuthors, 
-            currentPage: page,
-            totalPages: Math.ceil(total / limit),
-            totalPosts: total 
-        });
-    } catch (error) {
-        res.status(500).json({ message:`Server error: ${error}` });
-    }
-});
+router.get('/posts', authenticate, validate(listPostsSchemas), listPosts());
+
+/**
+ * @openapi
+ * /posts/feed:
+ *   get:
+ *     summary: Get the personalized feed
+ *     description: |
+ *       Returns the posts of the authors the current user follows (see `PUT /user/follow`).
+ *       Accepts the same search, filter and pagination parameters as `GET /posts` and returns the same envelope.
+ *       Requires JWT token in Authorization header.
+ *     tags:
+ *       - Posts
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ListPosts
+ *     responses:
+ *       200:
+ *         description: Feed retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PostPage'
+ *       400:
+ *         description: Invalid search, filter or pagination parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Category not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/posts/feed', authenticate, validate(listPostsSchemas), listPosts(async (req) => {
+    const followed = await Follow.find({ follower: req.user!.userId }).distinct('following');
+    return { author: { $in: followed } };
+}));
 
 
 /**
@@ -104,19 +277,12 @@ router.get('/posts', authenticate, async (req: Request, res: Response) => {
  * /post:
  *   get:
  *     summary: Get a single post by ID
- *     description: Returns detailed information about a specific post. Requires JWT token in Authorization header.
+ *     description: Returns detailed information about a specific post, including its Markdown `content`, the sanitized `contentHtml` rendered from it, its reaction counts and the caller's own reaction. Posts hidden by moderation are only returned to their author and admins. Requires JWT token in Authorization header.
  *     tags:
  *       - Posts
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Post ID (MongoDB ObjectId)
- *         example: '507f1f77bcf86cd799439011'
+ *     x-validation: PostId
  *     responses:
  *       200:
  *         description: Post retrieved successfully
@@ -128,7 +294,7 @@ router.get('/posts', authenticate, async (req: Request, res: Response) => {
  *                 post:
  *                   $ref: '#/components/schemas/Post'
  *       400:
- *         description: Post ID is required
+ *         description: Missing or invalid post ID
  *         content:
  *           application/json:
  *             schema:
@@ -152,36 +318,21 @@ router.get('/posts', authenticate, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/post', authenticate, async (req: Request, res: Response) => {
-    try {
-        const postId = req.query.id as string;
-        
-        if (!postId) {
-            return res.status(400).json({ message: 'Post ID is required' });
-        }
-
-        const post = await Post.findById(postId);
-        
-        if (!post) {
-            return res.status(404).json({ message: 'Post not found' });
-        }
+router.get('/post', authenticate, validate(postIdSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof postIdSchemas>(req);
 
-        // Manually populate author data using googleId
-        const author = await User.findOne({ googleId: post.author });
-        const postObj = post.toObject();
-        const postWithAuthor = {
-            _id: postObj._id,
-            title: postObj.title,
-            content: postObj.content,
-            createdAt: postObj.createdAt,
-            updatedAt: postObj.updatedAt,
-            author
-        };
-
-        res.json({ post: postWithAuthor });
-    } catch (error) {
-        res.status(500).json({ message:`Server error: ${error}` });
+    const post = await Post.findById(query.id).populate('category', 'name slug').lean();
+    
+    if (!post || !canViewPost(post, req.user!)) {
+        throw notFound('Post not found');
     }
+
+    const [[postWithAuthor], reactions] = await Promise.all([
+        attachAuthors([post]),
+        reactionSummaries([post._id], req.user!.userId),
+    ]);
+
+    res.json({ post: { ...serializePostDetail(postWithAuthor, apiBaseUrl(req)), ...reactions.get(String(post._id)) } });
 });
 
 /**
@@ -189,7 +340,14 @@ router.get('/post', authenticate, async (req: Request, res: Response) => {
  * /post:
  *   post:
  *     summary: Create a new post
- *     description: Creates a new post with title and content. Requires JWT token in Authorization header. The author is automatically set from the authenticated user.
+ *     description: |
+ *       Creates a new post with title and content. Requires JWT token in Authorization header. The author is automatically set from the authenticated user.
+ *
+ *       `publishAt` schedules the post for later and `expiresAt` archives it automatically once the date has passed.
+ *
+ *       Images can be attached by sending the same fields as `multipart/form-data` together with up to 5 files
+ *       (JPEG, PNG, WebP or GIF, at most 5 MB each) in the `images` field. Limits are configured with
+ *       `MAX_POST_IMAGES` and `MAX_IMAGE_SIZE`.
  *     tags:
  *       - Posts
  *     security:
@@ -197,7 +355,7 @@ router.get('/post', authenticate, async (req: Request, res: Response) => {
  *     requestBody:
  *       required: true
  *       content:
- *         application/json:
+ *         multipart/form-data:
  *           schema:
  *             type: object
  *             required:
@@ -206,12 +364,32 @@ router.get('/post', authenticate, async (req: Request, res: Response) => {
  *             properties:
  *               title:
  *                 type: string
- *                 description: Post title
- *                 example: My New Post
+ *                 example: Found keys
  *               content:
  *                 type: string
- *                 description: Post content
- *                 example: This is the content of my new post...
+ *                 example: Found in building B, see photo
+ *               category:
+ *                 type: string
+ *                 example: lost-found
+ *               tags:
+ *                 type: string
+ *                 description: Comma-separated tags
+ *                 example: keys,building-b
+ *               publishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 example: '2026-02-01T08:00:00Z'
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 example: '2026-02-28T23:59:59Z'
+ *               images:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     x-validation: CreatePost
  *     responses:
  *       201:
  *         description: Post created successfully
@@ -226,7 +404,7 @@ router.get('/post', authenticate, async (req: Request, res: Response) => {
  *                 post:
  *                   $ref: '#/components/schemas/Post'
  *       400:
- *         description: Title and content are required
+ *         description: Title and content are required, unknown category, too many tags, an invalid schedule or an invalid image
  *         content:
  *           application/json:
  *             schema:
@@ -237,6 +415,8 @@ router.get('/post', authenticate, async (req: Request, res: Response) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  *       500:
  *         description: Server error
  *         content:
@@ -244,25 +424,50 @@ router.get('/post', authenticate, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/post', authenticate, async (req: Request, res: Response) => {
-    try {
-        const { title, content } = req.body;
+router.post('/post', authenticate, postLimit, uploadImages, validate(createPostSchemas), async (req: Request, res: Response) => {
+    const { body } = validated<typeof createPostSchemas>(req);
 
-        if (!title || !content) {
-            return res.status(400).json({ message: 'Title and content are required' });
+    let categoryId = null;
+    if (body.category) {
+        categoryId = await resolveCategory(body.category);
+        if (!categoryId) {
+            throw badRequest('Category not found');
         }
+    }
 
-        const post = new Post({
-            title,
-            content,
-            author: req.user!.userId,
-        });
+    checkSchedule(body.publishAt, body.expiresAt);
+
+    const attachments: IAttachment[] = [];
+    const post = new Post({
+        title: body.title,
+        content: body.content,
+        author: req.user!.userId,
+        category: categoryId,
+        tags: body.tags || [],
+        publishAt: body.publishAt || null,
+        expiresAt: body.expiresAt || null,
+        attachments,
+    });
 
+    try {
+        for (const file of (req.files as Express.Multer.File[]) || []) {
+            attachments.push(await storeImage(file));
+        }
+        post.attachments = attachments;
         await post.save();
-        res.status(201).json({ message: 'Post created successfully', post });
     } catch (error) {
-        res.status(500).json({ message:`Server error: ${error}` });
+        // Nothing references the stored files if the post was not created
+        await removeImages(attachments).catch(() => undefined);
+        throw error;
     }
+
+    await recordRevision(post, req.user!.userId);
+    publishPostEvent('post.created', post);
+
+    res.status(201).json({
+        message: 'Post created successfully',
+        post: await serializeSavedPost(post, apiBaseUrl(req)),
+    });
 });
 
 /**
@@ -270,34 +475,12 @@ router.post('/post', authenticate, async (req: Request, res: Response) => {
  * /post:
  *   put:
  *     summary: Update a post
- *     description: Updates an existing post's title and/or content. Only the post author or admin can update. Requires JWT token in Authorization header.
+ *     description: Updates an existing post's title and/or content. Changes to the title or content are kept as revisions, see `GET /post/revisions`. Only the post author or admin can update, the author is notified of edits made by an admin. Requires JWT token in Authorization header.
  *     tags:
  *       - Posts
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Post ID to update (MongoDB ObjectId)
- *         example: '507f1f77bcf86cd799439011'
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               title:
- *                 type: string
- *                 description: New post title (optional)
- *                 example: Updated Post Title
- *               content:
- *                 type: string
- *                 description: New post content (optional)
- *                 example: This is the updated content...
+ *     x-validation: UpdatePost
  *     responses:
  *       200:
  *         description: Post updated successfully
@@ -312,7 +495,7 @@ router.post('/post', authenticate, async (req: Request, res: Response) => {
  *                 post:
  *                   $ref: '#/components/schemas/Post'
  *       400:
- *         description: Post ID is required
+ *         description: Missing or invalid post ID, unknown category, too many tags or an invalid schedule
  *         content:
  *           application/json:
  *             schema:
@@ -335,6 +518,14 @@ router.post('/post', authenticate, async (req: Request, res: Response) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The schedule of an expired post was changed, the post must be renewed instead
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  *       500:
  *         description: Server error
  *         content:
@@ -342,33 +533,182 @@ router.post('/post', authenticate, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/post', authenticate, async (req: Request, res: Response) => {
-    try {
-        const postId = req.query.id as string;
-        const { title, content } = req.body;
+router.put('/post', authenticate, writeLimit, validate(updatePostSchemas), async (req: Request, res: Response) => {
+    const { query, body } = validated<typeof updatePostSchemas>(req);
 
-        if (!postId) {
-            return res.status(400).json({ message: 'Post ID is required' });
-        }
+    const post = await Post.findOne({ _id: query.id, deletedAt: null });
 
-        const post = await Post.findById(postId);
+    if (!post) {
+        throw notFound('Post not found');
+    }
+
+    if (post.author.toString() !== req.user!.userId && req.user!.role !== 'admin') {
+        throw forbidden('Not authorized to edit this post');
+    }
+
+    const before = snapshot(post);
+    const previous = { title: post.title, content: post.content, updatedAt: post.updatedAt };
 
-        if (!post) {
-            return res.status(404).json({ message: 'Post not found' });
+    if (body.title) post.title = body.title;
+    if (body.content) post.content = body.content;
+    const textChanged = post.title !== previous.title || post.content !== previous.content;
+
+    // An empty string or null removes the post from its category
+    if (body.category !== undefined) {
+        if (body.category) {
+            const categoryId = await resolveCategory(body.category);
+            if (!categoryId) {
+                throw badRequest('Category not found');
+            }
+            post.category = categoryId;
+        } else {
+            post.category = undefined;
         }
+    }
 
-        if (post.author.toString() !== req.user!.userId && req.user!.role !== 'admin') {
-            return res.status(403).json({ message: 'Not authorized to edit this post' });
+    if (body.tags !== undefined) {
+        post.tags = body.tags || [];
+    }
+
+    if (body.publishAt !== undefined || body.expiresAt !== undefined) {
+        if (postStatus(post) === 'expired') {
+            throw conflict('The post has expired, renew it to change its schedule');
         }
+        if (body.publishAt !== undefined) post.publishAt = body.publishAt;
+        if (body.expiresAt !== undefined) post.expiresAt = body.expiresAt;
+        checkSchedule(post.publishAt, post.expiresAt);
+    }
 
-        if (title) post.title = title;
-        if (content) post.content = content;
+    await post.save();
 
-        await post.save();
-        res.json({ message: 'Post updated successfully', post });
-    } catch (error) {
-        res.status(500).json({ message:`Server error: ${error}` });
+    if (textChanged) {
+        await recordRevision(post, req.user!.userId, { previous });
+    }
+
+    if (post.author !== req.user!.userId) {
+        await recordAudit({
+            actor: req.user!.userId,
+            action: 'post.update',
+            targetType: 'post',
+            targetId: String(post._id),
+            before,
+            after: snapshot(post),
+        });
+        await notify({
+            recipient: post.author,
+            type: 'post.edited',
+            actor: req.user!.userId,
+            post: post._id,
+            data: { title: post.title },
+        });
+    }
+
+    publishPostEvent('post.updated', post);
+    res.json({ message: 'Post updated successfully', post: await serializeSavedPost(post, apiBaseUrl(req)) });
+});
+
+/**
+ * @openapi
+ * /post/renew:
+ *   put:
+ *     summary: Renew an expired post
+ *     description: |
+ *       Makes an expired post visible again with a new expiry date. Only the post author or admin can renew.
+ *       Requires JWT token in Authorization header.
+ *     tags:
+ *       - Posts
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: RenewPost
+ *     responses:
+ *       200:
+ *         description: Post renewed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Post renewed successfully
+ *                 post:
+ *                   $ref: '#/components/schemas/Post'
+ *       400:
+ *         description: Missing or invalid post ID, or the new expiry is not in the future
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to renew this post
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The post has not expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/post/renew', authenticate, writeLimit, validate(renewPostSchemas), async (req: Request, res: Response) => {
+    const { query, body } = validated<typeof renewPostSchemas>(req);
+
+    const post = await Post.findOne({ _id: query.id, deletedAt: null });
+
+    if (!post) {
+        throw notFound('Post not found');
+    }
+
+    if (post.author !== req.user!.userId && req.user!.role !== 'admin') {
+        throw forbidden('Not authorized to renew this post');
+    }
+
+    if (postStatus(post) !== 'expired') {
+        throw conflict('Only expired posts can be renewed');
+    }
+
+    checkSchedule(post.publishAt, body.expiresAt);
+
+    const before = snapshot(post);
+    post.expiresAt = body.expiresAt;
+    post.archivedAt = null;
+    await post.save();
+
+    if (post.author !== req.user!.userId) {
+        await recordAudit({
+            actor: req.user!.userId,
+            action: 'post.renew',
+            targetType: 'post',
+            targetId: String(post._id),
+            before,
+            after: snapshot(post),
+        });
     }
+
+    publishPostEvent('post.updated', post);
+    res.json({ message: 'Post renewed successfully', post: await serializeSavedPost(post, apiBaseUrl(req)) });
 });
 
 /**
@@ -376,19 +716,15 @@ router.put('/post', authenticate, async (req: Request, res: Response) => {
  * /post:
  *   delete:
  *     summary: Delete a post
- *     description: Deletes a post. Only the post author or admin can delete. Requires JWT token in Authorization header.
+ *     description: |
+ *       Moves a post to the trash. Admins can restore it until it is purged together with its comments and attachments
+ *       after the retention period (`TRASH_RETENTION_DAYS`, 30 days by default). Only the post author or admin can delete, the author is notified
+ *       when an admin deletes their post. Requires JWT token in Authorization header.
  *     tags:
  *       - Posts
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Post ID to delete (MongoDB ObjectId)
- *         example: '507f1f77bcf86cd799439011'
+ *     x-validation: PostId
  *     responses:
  *       200:
  *         description: Post deleted successfully
@@ -401,7 +737,7 @@ router.put('/post', authenticate, async (req: Request, res: Response) => {
  *                   type: string
  *                   example: Post deleted successfully
  *       400:
- *         description: Post ID is required
+ *         description: Missing or invalid post ID
  *         content:
  *           application/json:
  *             schema:
@@ -424,6 +760,8 @@ router.put('/post', authenticate, async (req: Request, res: Response) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  *       500:
  *         description: Server error
  *         content:
@@ -431,29 +769,43 @@ router.put('/post', authenticate, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/post', authenticate, async (req: Request, res: Response) => {
-    try {
-        const postId = req.query.id as string;
+router.delete('/post', authenticate, writeLimit, validate(postIdSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof postIdSchemas>(req);
 
-        if (!postId) {
-            return res.status(400).json({ message: 'Post ID is required' });
-        }
+    const post = await Post.findOne({ _id: query.id, deletedAt: null });
 
-        const post = await Post.findById(postId);
+    if (!post) {
+        throw notFound('Post not found');
+    }
 
-        if (!post) {
-            return res.status(404).json({ message: 'Post not found' });
-        }
+    if (post.author.toString() !== req.user!.userId && req.user!.role !== 'admin') {
+        throw forbidden('Not authorized to delete this post');
+    }
 
-        if (post.author.toString() !== req.user!.userId && req.user!.role !== 'admin') {
-            return res.status(403).json({ message: 'Not authorized to delete this post' });
-        }
+    const before = snapshot(post);
+    post.deletedAt = new Date();
+    post.deletedBy = req.user!.userId;
+    await post.save();
 
-        await Post.findByIdAndDelete(postId);
-        res.json({ message: 'Post deleted successfully' });
-    } catch (error) {
-        res.status(500).json({ message:`Server error: ${error}` });
+    if (post.author !== req.user!.userId) {
+        await recordAudit({
+            actor: req.user!.userId,
+            action: 'post.delete',
+            targetType: 'post',
+            targetId: String(post._id),
+            before,
+            after: snapshot(post),
+        });
+        await notify({
+            recipient: post.author,
+            type: 'post.deleted',
+            actor: req.user!.userId,
+            post: post._id,
+            data: { title: post.title },
+        });
     }
+    publishPostEvent('post.deleted', post);
+    res.json({ message: 'Post deleted successfully' });
 });
 
 export default router;
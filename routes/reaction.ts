@@ -0,0 +1,138 @@
+import express, { Request, Response } from 'express';
+import Post from '../models/post';
+import Reaction from '../models/reaction';
+import { authenticate } from '../middleware/auth';
+import { writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { postVisibilityFilter } from '../utils/visibility';
+import { reactionSummaries } from '../services/reactions';
+import { notFound } from '../utils/errors';
+import { removeReactionSchemas, setReactionSchemas } from '../schemas/reaction';
+
+const router = express.Router();
+
+/**
+ * @openapi
+ * /post/reaction:
+ *   put:
+ *     summary: React to a post
+ *     description: Sets the caller's reaction on a post, replacing any previous reaction. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Reactions
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: SetReaction
+ *     responses:
+ *       200:
+ *         description: Reaction saved, returns the updated counts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReactionSummary'
+ *       400:
+ *         description: Missing or invalid post ID or reaction type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/post/reaction', authenticate, writeLimit, validate(setReactionSchemas), async (req: Request, res: Response) => {
+    const { query, body } = validated<typeof setReactionSchemas>(req);
+
+    const post = await Post.findOne({ _id: query.id, ...postVisibilityFilter(req.user!) }).select('_id');
+
+    if (!post) {
+        throw notFound('Post not found');
+    }
+
+    await Reaction.updateOne(
+        { post: post._id, user: req.user!.userId },
+        { type: body.type },
+        { upsert: true },
+    );
+
+    const summaries = await reactionSummaries([post._id], req.user!.userId);
+    res.json(summaries.get(String(post._id)));
+});
+
+/**
+ * @openapi
+ * /post/reaction:
+ *   delete:
+ *     summary: Remove the caller's reaction from a post
+ *     description: Removes the caller's reaction, if any. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Reactions
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: RemoveReaction
+ *     responses:
+ *       200:
+ *         description: Reaction removed, returns the updated counts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReactionSummary'
+ *       400:
+ *         description: Missing or invalid post ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/post/reaction', authenticate, writeLimit, validate(removeReactionSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof removeReactionSchemas>(req);
+
+    const post = await Post.findOne({ _id: query.id, ...postVisibilityFilter(req.user!) }).select('_id');
+
+    if (!post) {
+        throw notFound('Post not found');
+    }
+
+    await Reaction.deleteOne({ post: post._id, user: req.user!.userId });
+
+    const summaries = await reactionSummaries([post._id], req.user!.userId);
+    res.json(summaries.get(String(post._id)));
+});
+
+export default router;
@@ -0,0 +1,378 @@
+import express, { Request, Response } from 'express';
+import { diffWords } from 'diff';
+import Post from '../models/post';
+import Revision from '../models/revision';
+import { authenticate } from '../middleware/auth';
+import { writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { canViewPost, Viewer } from '../utils/visibility';
+import { apiBaseUrl } from '../utils/urls';
+import { attachAuthors } from '../services/authors';
+import { serializeSavedPost } from '../services/posts';
+import { recordAudit, snapshot } from '../services/audit';
+import { recordRevision } from '../services/revisions';
+import { notify } from '../services/notifications';
+import { publishPostEvent } from '../services/postEvents';
+import { forbidden, notFound } from '../utils/errors';
+import { diffRevisionsSchemas, getRevisionSchemas, listRevisionsSchemas, revertPostSchemas } from '../schemas/revision';
+
+const router = express.Router();
+
+const EDITOR_FIELDS = 'uid name picture role';
+
+// Replaces the `editor` user ID of every revision with the editor's profile
+const attachEditors = async <T extends { editor: string }>(revisions: T[]) => {
+    const withAuthors = await attachAuthors(revisions.map((revision) => ({ ...revision, author: revision.editor })), EDITOR_FIELDS);
+    return withAuthors.map(({ author, ...revision }) => ({ ...revision, editor: author }));
+};
+
+// Throws unless the post exists and the user may see it
+const findVisiblePost = async (postId: string, viewer: Viewer) => {
+    const post = await Post.findById(postId).select('author hidden publishAt expiresAt archivedAt deletedAt').lean();
+    if (!post || !canViewPost(post, viewer)) {
+        throw notFound('Post not found');
+    }
+    return post;
+};
+
+const withoutContent = <T extends { content: string }>({ content, ...revision }: T) => revision;
+
+const changes = (before: string, after: string) => diffWords(before, after)
+    .map(({ value, added, removed }) => ({ value, added, removed }));
+
+/**
+ * @openapi
+ * /post/revisions:
+ *   get:
+ *     summary: List the revisions of a post
+ *     description: Returns the revisions of a post, newest first. Revision 1 is the post as it was created. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Revisions
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ListRevisions
+ *     responses:
+ *       200:
+ *         description: Revisions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 revisions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RevisionSummary'
+ *                 currentPage:
+ *                   type: integer
+ *                   example: 1
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 1
+ *                 totalRevisions:
+ *                   type: integer
+ *                   example: 3
+ *       400:
+ *         description: Missing or invalid post ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/post/revisions', authenticate, validate(listRevisionsSchemas), async (req: Request, res: Response) => {
+    const { id, page } = validated<typeof listRevisionsSchemas>(req).query;
+    const limit = 20;
+    const skip = (page - 1) * limit;
+
+    const post = await findVisiblePost(id, req.user!);
+
+    const [revisions, total] = await Promise.all([
+        Revision.find({ post: post._id })
+            .select('-content')
+            .sort({ version: -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        Revision.countDocuments({ post: post._id }),
+    ]);
+
+    res.json({
+        revisions: await attachEditors(revisions),
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalRevisions: total,
+    });
+});
+
+/**
+ * @openapi
+ * /post/revision:
+ *   get:
+ *     summary: Get a single revision of a post
+ *     description: Returns the title and content of a post as of the given revision. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Revisions
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: GetRevision
+ *     responses:
+ *       200:
+ *         description: Revision retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 revision:
+ *                   $ref: '#/components/schemas/Revision'
+ *       400:
+ *         description: Missing or invalid post ID or version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post or revision not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/post/revision', authenticate, validate(getRevisionSchemas), async (req: Request, res: Response) => {
+    const { id, version } = validated<typeof getRevisionSchemas>(req).query;
+
+    const post = await findVisiblePost(id, req.user!);
+    const revision = await Revision.findOne({ post: post._id, version }).lean();
+
+    if (!revision) {
+        throw notFound('Revision not found');
+    }
+
+    const [revisionWithEditor] = await attachEditors([revision]);
+
+    res.json({ revision: revisionWithEditor });
+});
+
+/**
+ * @openapi
+ * /post/revisions/diff:
+ *   get:
+ *     summary: Compare two revisions of a post
+ *     description: |
+ *       Returns a word-level diff of the title and content between two revisions. Concatenating the `value` of all
+ *       changes that are not `removed` gives the newer text, all that are not `added` gives the older one.
+ *       Requires JWT token in Authorization header.
+ *     tags:
+ *       - Revisions
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: DiffRevisions
+ *     responses:
+ *       200:
+ *         description: Diff computed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 from:
+ *                   $ref: '#/components/schemas/RevisionSummary'
+ *                 to:
+ *                   $ref: '#/components/schemas/RevisionSummary'
+ *                 title:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RevisionChange'
+ *                 content:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RevisionChange'
+ *       400:
+ *         description: Missing or invalid post ID or versions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post or revision not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/post/revisions/diff', authenticate, validate(diffRevisionsSchemas), async (req: Request, res: Response) => {
+    const { id, from, to } = validated<typeof diffRevisionsSchemas>(req).query;
+
+    const post = await findVisiblePost(id, req.user!);
+    const revisions = await Revision.find({ post: post._id, version: { $in: [from, to] } }).lean();
+    const older = revisions.find((revision) => revision.version === from);
+    const newer = revisions.find((revision) => revision.version === to);
+
+    if (!older || !newer) {
+        throw notFound('Revision not found');
+    }
+
+    const [olderWithEditor, newerWithEditor] = await attachEditors([older, newer]);
+
+    res.json({
+        from: withoutContent(olderWithEditor),
+        to: withoutContent(newerWithEditor),
+        title: changes(older.title, newer.title),
+        content: changes(older.content, newer.content),
+    });
+});
+
+/**
+ * @openapi
+ * /post/revert:
+ *   put:
+ *     summary: Revert a post to an earlier revision
+ *     description: |
+ *       Restores the title and content of an earlier revision. The revert is recorded as a new revision, so it can be
+ *       undone as well. Only the post author or admin can revert, the author is notified when an admin reverts their post. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Revisions
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: RevertPost
+ *     responses:
+ *       200:
+ *         description: Post reverted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Post reverted to revision 2
+ *                 post:
+ *                   $ref: '#/components/schemas/Post'
+ *       400:
+ *         description: Missing or invalid post ID or version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to revert this post
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post or revision not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/post/revert', authenticate, writeLimit, validate(revertPostSchemas), async (req: Request, res: Response) => {
+    const { query, body } = validated<typeof revertPostSchemas>(req);
+
+    const post = await Post.findOne({ _id: query.id, deletedAt: null });
+
+    if (!post) {
+        throw notFound('Post not found');
+    }
+
+    if (post.author !== req.user!.userId && req.user!.role !== 'admin') {
+        throw forbidden('Not authorized to revert this post');
+    }
+
+    const revision = await Revision.findOne({ post: post._id, version: body.version });
+
+    if (!revision) {
+        throw notFound('Revision not found');
+    }
+
+    if (revision.title === post.title && revision.content === post.content) {
+        return res.json({ message: `Post reverted to revision ${revision.version}`, post: await serializeSavedPost(post, apiBaseUrl(req)) });
+    }
+
+    const before = snapshot(post);
+    const previous = { title: post.title, content: post.content, updatedAt: post.updatedAt };
+    post.title = revision.title;
+    post.content = revision.content;
+    await post.save();
+    await recordRevision(post, req.user!.userId, { previous, revertedFrom: revision.version });
+
+    if (post.author !== req.user!.userId) {
+        await recordAudit({
+            actor: req.user!.userId,
+            action: 'post.revert',
+            targetType: 'post',
+            targetId: String(post._id),
+            before,
+            after: snapshot(post),
+        });
+        await notify({
+            recipient: post.author,
+            type: 'post.edited',
+            actor: req.user!.userId,
+            post: post._id,
+            data: { title: post.title },
+        });
+    }
+
+    publishPostEvent('post.updated', post);
+    res.json({ message: `Post reverted to revision ${revision.version}`, post: await serializeSavedPost(post, apiBaseUrl(req)) });
+});
+
+export default router;
@@ -0,0 +1,328 @@
+import express, { Request, Response } from 'express';
+import Post from '../models/post';
+import User from '../models/user';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { validate, validated } from '../middleware/validate';
+import { purgeDate } from '../jobs/purgeTrash';
+import { recordAudit, snapshot } from '../services/audit';
+import { restoreUser } from '../services/accounts';
+import { publishPostEvent } from '../services/postEvents';
+import { conflict, notFound } from '../utils/errors';
+import { restorePostSchemas, restoreUserSchemas, trashPageSchemas } from '../schemas/trash';
+
+const router = express.Router();
+
+/**
+ * @openapi
+ * /trash/posts:
+ *   get:
+ *     summary: List trashed posts (Admin only)
+ *     description: Returns deleted posts, most recently deleted first, with the date on which each will be purged for good. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - Trash
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: TrashPage
+ *     responses:
+ *       200:
+ *         description: Trashed posts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 posts:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TrashedPost'
+ *                 currentPage:
+ *                   type: integer
+ *                   example: 1
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 1
+ *                 totalPosts:
+ *                   type: integer
+ *                   example: 3
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/posts', authenticate, requireAdmin, validate(trashPageSchemas), async (req: Request, res: Response) => {
+    const { page } = validated<typeof trashPageSchemas>(req).query;
+    const limit = 20;
+    const skip = (page - 1) * limit;
+    const filter = { deletedAt: { $ne: null } };
+
+    const [posts, total] = await Promise.all([
+        Post.find(filter)
+            .select('title author deletedAt deletedBy createdAt')
+            .sort({ deletedAt: -1 })
+            .skip(skip)
+            .limit(limit),
+        Post.countDocuments(filter),
+    ]);
+
+    res.json({
+        posts: posts.map((post) => ({ ...post.toObject(), purgeAt: purgeDate(post.deletedAt!) })),
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalPosts: total,
+    });
+});
+
+/**
+ * @openapi
+ * /trash/users:
+ *   get:
+ *     summary: List trashed users (Admin only)
+ *     description: Returns deleted users, most recently deleted first, with the date on which each will be purged for good. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - Trash
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: TrashPage
+ *     responses:
+ *       200:
+ *         description: Trashed users retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 users:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TrashedUser'
+ *                 currentPage:
+ *                   type: integer
+ *                   example: 1
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 1
+ *                 totalUsers:
+ *                   type: integer
+ *                   example: 1
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/users', authenticate, requireAdmin, validate(trashPageSchemas), async (req: Request, res: Response) => {
+    const { page } = validated<typeof trashPageSchemas>(req).query;
+    const limit = 20;
+    const skip = (page - 1) * limit;
+    const filter = { deletedAt: { $ne: null } };
+
+    const [users, total] = await Promise.all([
+        User.find(filter)
+            .select('uid name email picture role deletedAt deletedBy')
+            .sort({ deletedAt: -1 })
+            .skip(skip)
+            .limit(limit),
+        User.countDocuments(filter),
+    ]);
+
+    res.json({
+        users: users.map((user) => ({ ...user.toObject(), purgeAt: purgeDate(user.deletedAt!) })),
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalUsers: total,
+    });
+});
+
+/**
+ * @openapi
+ * /trash/post/restore:
+ *   put:
+ *     summary: Restore a trashed post (Admin only)
+ *     description: Moves a post out of the trash. Posts of a trashed user can only be restored together with the user. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - Trash
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: RestorePost
+ *     responses:
+ *       200:
+ *         description: Post restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Post restored successfully
+ *       400:
+ *         description: Missing or invalid post ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found in the trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The post's author is in the trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/post/restore', authenticate, requireAdmin, validate(restorePostSchemas), async (req: Request, res: Response) => {
+    const postId = validated<typeof restorePostSchemas>(req).query.id;
+
+    const post = await Post.findOne({ _id: postId, deletedAt: { $ne: null } });
+
+    if (!post) {
+        throw notFound('Post not found in the trash');
+    }
+
+    if (!await User.exists({ uid: post.author, deletedAt: null })) {
+        throw conflict('The author of this post is in the trash, restore the user instead');
+    }
+
+    const before = snapshot(post);
+    post.deletedAt = null;
+    post.deletedBy = null;
+    await post.save();
+    await recordAudit({
+        actor: req.user!.userId,
+        action: 'post.restore',
+        targetType: 'post',
+        targetId: String(post._id),
+        before,
+        after: snapshot(post),
+    });
+
+    publishPostEvent('post.updated', post);
+    res.json({ message: 'Post restored successfully' });
+});
+
+/**
+ * @openapi
+ * /trash/user/restore:
+ *   put:
+ *     summary: Restore a trashed user (Admin only)
+ *     description: Moves a user out of the trash together with the posts that were trashed along with them. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - Trash
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: RestoreUser
+ *     responses:
+ *       200:
+ *         description: User restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: User and 4 posts restored successfully
+ *       400:
+ *         description: Missing or invalid user ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found in the trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/user/restore', authenticate, requireAdmin, validate(restoreUserSchemas), async (req: Request, res: Response) => {
+    const userId = validated<typeof restoreUserSchemas>(req).query.id;
+
+    const user = await User.findOne({ uid: userId, deletedAt: { $ne: null } });
+
+    if (!user) {
+        throw notFound('User not found in the trash');
+    }
+
+    const before = snapshot(user);
+    const modifiedCount = await restoreUser(user);
+    await recordAudit({
+        actor: req.user!.userId,
+        action: 'user.restore',
+        targetType: 'user',
+        targetId: userId,
+        before,
+        after: snapshot(user),
+    });
+
+    res.json({ message: `User and ${modifiedCount} posts restored successfully` });
+});
+
+export default router;
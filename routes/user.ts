@@ -1,16 +1,41 @@
 import express, { Request, Response } from 'express';
 import User from '../models/user';
 import Post from '../models/post';
+import Bookmark from '../models/bookmark';
 import { authenticate, requireAdmin } from '../middleware/auth';
+import { writeLimit } from '../middleware/rateLimit';
+import { validate, validated } from '../middleware/validate';
+import { escapeRegExp } from '../utils/search';
+import { postVisibilityFilter } from '../utils/visibility';
+import { serializePost } from '../utils/posts';
+import { apiBaseUrl } from '../utils/urls';
+import { attachAuthors } from '../services/authors';
+import { reactionSummaries } from '../services/reactions';
+import { followStats } from '../services/follows';
+import { recordAudit, snapshot } from '../services/audit';
+import { notify } from '../services/notifications';
+import { revokeUserTokens } from '../services/tokens';
+import { ownProfile, publicProfile } from '../services/profiles';
+import { createDeletionConfirmation, DELETION_CONFIRMATION_TTL_SECONDS, trashUser, verifyDeletionConfirmation } from '../services/accounts';
+import { exportUserData } from '../services/export';
+import { purgeDate } from '../jobs/purgeTrash';
+import { badRequest, conflict, notFound } from '../utils/errors';
+import { changeRoleSchemas, deleteAccountSchemas, listUsersSchemas, updateProfileSchemas, userIdSchemas } from '../schemas/user';
+import { listBookmarksSchemas } from '../schemas/bookmark';
 
 const router = express.Router();
 
+const isLastAdmin = async (userId: string) => {
+    const admins = await User.find({ role: 'admin', deletedAt: null }).select('uid').limit(2);
+    return admins.length === 1 && admins[0].uid === userId;
+};
+
 /**
  * @openapi
  * /user/me:
  *   get:
  *     summary: Get current user profile
- *     description: Returns the authenticated user's profile information. Requires JWT token in Authorization header.
+ *     description: Returns the authenticated user's full profile with the visibility settings of its fields. Requires JWT token in Authorization header.
  *     tags:
  *       - User
  *     security:
@@ -21,7 +46,7 @@ const router = express.Router();
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/User'
+ *               $ref: '#/components/schemas/OwnProfile'
  *       401:
  *         description: Authentication required or invalid token
  *         content:
@@ -31,10 +56,14 @@ const router = express.Router();
  *             examples:
  *               noToken:
  *                 value:
+ *                   code: UNAUTHORIZED
  *                   message: Authentication required
+ *                   details: null
  *               invalidToken:
  *                 value:
+ *                   code: UNAUTHORIZED
  *                   message: Invalid token
+ *                   details: null
  *       404:
  *         description: User not found
  *         content:
@@ -49,62 +78,485 @@ const router = express.Router();
  *               $ref: '#/components/schemas/Error'
  */
 router.get('/me', authenticate, async (req: Request, res: Response) => {
-    try {
-        const googleId = req.user?.userId as string;
-        
-        const user = await User.findOne({ googleId });
-        
-        if (!user) {
-            return res.status(404).json({ message: 'User not found' });
-        }
-
-        res.json({ 
-            googleId: user.googleId,
-            name: user.name, 
-            email: user.email,
-            picture: user.picture,
-            role: user.role 
-        });
-    } catch (error) {
-        res.status(500).json({ message:`Server error: ${error}` });
+    const userId = req.user?.userId as string;
+    
+    const user = await User.findOne({ uid: userId, deletedAt: null }).select('+passwordHash');
+    
+    if (!user) {
+        throw notFound('User not found');
     }
+
+    res.json(ownProfile(user));
 });
 
 /**
  * @openapi
- * /user:
+ * /user/me:
+ *   put:
+ *     summary: Update current user profile
+ *     description: |
+ *       Updates the display name, bio and contact information and who can see them. Only the given fields are changed,
+ *       an empty string clears a field. Name and picture are always public, the other fields are shown to every signed-in
+ *       user or only to the user and admins according to `visibility`. There is no followers-only level, as anyone can
+ *       follow a user without approval.
+ *       A changed display name is no longer overwritten by the name of the Google account on the next login.
+ *       Requires JWT token in Authorization header.
+ *     tags:
+ *       - User
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: UpdateProfile
+ *     responses:
+ *       200:
+ *         description: Profile updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Profile updated successfully
+ *                 user:
+ *                   $ref: '#/components/schemas/OwnProfile'
+ *       400:
+ *         description: Invalid profile fields
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/me', authenticate, writeLimit, validate(updateProfileSchemas), async (req: Request, res: Response) => {
+    const { body } = validated<typeof updateProfileSchemas>(req);
+
+    const user = await User.findOne({ uid: req.user!.userId, deletedAt: null }).select('+passwordHash');
+
+    if (!user) {
+        throw notFound('User not found');
+    }
+
+    if (body.name !== undefined && body.name !== user.name) {
+        user.name = body.name;
+        user.nameEditedAt = new Date();
+    }
+    for (const field of ['bio', 'phone', 'website', 'location'] as const) {
+        if (body[field] !== undefined) user[field] = body[field] || undefined;
+    }
+    for (const [field, visibility] of Object.entries(body.visibility || {})) {
+        if (visibility) user.set(`visibility.${field}`, visibility);
+    }
+
+    await user.save();
+    res.json({ message: 'Profile updated successfully', user: ownProfile(user) });
+});
+
+/**
+ * @openapi
+ * /user/me/export:
  *   get:
- *     summary: Get user by ID
- *     description: Returns a user's public profile and their posts. Requires authentication.
+ *     summary: Export the current user's data
+ *     description: |
+ *       Downloads everything stored about the current user as a JSON file: the profile, all posts including trashed ones,
+ *       comments, reactions, bookmarks, follows, notifications, filed reports, post revisions and sign-in sessions.
+ *       Exports count against the write rate limit. Requires JWT token in Authorization header.
  *     tags:
  *       - User
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: User's Google ID
- *         example: '1234567890'
  *     responses:
  *       200:
- *         description: User profile retrieved successfully
+ *         description: Data export returned as an attachment
+ *         headers:
+ *           Content-Disposition:
+ *             schema:
+ *               type: string
+ *               example: attachment; filename="tabloid-export-1234567890-2026-02-01.json"
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 exportedAt:
+ *                   type: string
+ *                   format: date-time
+ *                   example: '2026-02-01T08:15:00Z'
+ *                 profile:
+ *                   $ref: '#/components/schemas/OwnProfile'
+ *                 posts:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 comments:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 reactions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 bookmarks:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 following:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 followers:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 notifications:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 reports:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 revisions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 sessions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/me/export', authenticate, writeLimit, async (req: Request, res: Response) => {
+    const user = await User.findOne({ uid: req.user!.userId, deletedAt: null }).select('+passwordHash');
+
+    if (!user) {
+        throw notFound('User not found');
+    }
+
+    const data = await exportUserData(user);
+    const filename = `tabloid-export-${user.uid}-${data.exportedAt.toISOString().slice(0, 10)}.json`;
+
+    res.set('Cache-Control', 'no-store');
+    res.attachment(filename);
+    res.send(JSON.stringify(data, null, 2));
+});
+
+/**
+ * @openapi
+ * /user/me/deletion:
+ *   post:
+ *     summary: Request deleting the current user's account
+ *     description: |
+ *       First step of closing the account. Returns a confirmation token that is valid for 10 minutes and has to be sent
+ *       to `DELETE /user/me`. Requires JWT token in Authorization header.
+ *     tags:
+ *       - User
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Confirmation token issued
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 name:
+ *                 confirmationToken:
  *                   type: string
- *                   example: John Doe
- *                 picture:
+ *                   example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                 expiresAt:
  *                   type: string
- *                   example: https://example.com/avatar.jpg
- *                 role:
+ *                   format: date-time
+ *                   example: '2026-02-01T08:25:00Z'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The last admin cannot be deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/me/deletion', authenticate, writeLimit, async (req: Request, res: Response) => {
+    const userId = req.user!.userId;
+
+    if (await isLastAdmin(userId)) {
+        throw conflict('The last admin cannot be deleted');
+    }
+
+    res.json({
+        confirmationToken: createDeletionConfirmation(userId),
+        expiresAt: new Date(Date.now() + DELETION_CONFIRMATION_TTL_SECONDS * 1000),
+    });
+});
+
+/**
+ * @openapi
+ * /user/me:
+ *   delete:
+ *     summary: Delete the current user's account
+ *     description: |
+ *       Closes the account using the token from `POST /user/me/deletion`. The user and all their posts are moved to the
+ *       trash, their comments and reactions are hidden and every session is signed out. Until they are purged after the
+ *       grace period (`TRASH_RETENTION_DAYS`, 30 days by default) signing in again reactivates the account together with
+ *       its posts, comments and reactions.
+ *       Download your data with `GET /user/me/export` beforehand. Requires JWT token in Authorization header.
+ *     tags:
+ *       - User
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: DeleteAccount
+ *     responses:
+ *       200:
+ *         description: Account scheduled for deletion
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Account deleted, sign in again before it is purged to reactivate it
+ *                 purgeAt:
  *                   type: string
- *                   example: user
+ *                   format: date-time
+ *                   example: '2026-03-03T08:15:00Z'
+ *       400:
+ *         description: Missing, invalid or expired confirmation token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The last admin cannot be deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/me', authenticate, writeLimit, validate(deleteAccountSchemas), async (req: Request, res: Response) => {
+    const { body } = validated<typeof deleteAccountSchemas>(req);
+    const userId = req.user!.userId;
+
+    if (!verifyDeletionConfirmation(body.confirmationToken, userId)) {
+        throw badRequest('Invalid or expired confirmation token');
+    }
+
+    if (await isLastAdmin(userId)) {
+        throw conflict('The last admin cannot be deleted');
+    }
+
+    const user = await User.findOne({ uid: userId, deletedAt: null });
+
+    if (!user) {
+        throw notFound('User not found');
+    }
+
+    const before = snapshot(user);
+    await trashUser(user, userId);
+    await recordAudit({
+        actor: userId,
+        action: 'user.delete',
+        targetType: 'user',
+        targetId: userId,
+        before,
+        after: snapshot(user),
+    });
+
+    res.json({
+        message: 'Account deleted, sign in again before it is purged to reactivate it',
+        purgeAt: purgeDate(user.deletedAt!),
+    });
+});
+
+/**
+ * @openapi
+ * /user/me/bookmarks:
+ *   get:
+ *     summary: List the current user's bookmarks
+ *     description: Returns the posts bookmarked by the current user, most recently bookmarked first. Posts the user can no longer see are left out. Requires JWT token in Authorization header.
+ *     tags:
+ *       - Bookmarks
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ListBookmarks
+ *     responses:
+ *       200:
+ *         description: Bookmarks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 bookmarks:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       bookmarkedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         example: '2026-02-01T08:15:00Z'
+ *                       post:
+ *                         $ref: '#/components/schemas/Post'
+ *                 currentPage:
+ *                   type: integer
+ *                   example: 1
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 2
+ *                 totalBookmarks:
+ *                   type: integer
+ *                   example: 23
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/me/bookmarks', authenticate, validate(listBookmarksSchemas), async (req: Request, res: Response) => {
+    const { page } = validated<typeof listBookmarksSchemas>(req).query;
+    const limit = 20;
+    const skip = (page - 1) * limit;
+
+    const bookmarkedIds = await Bookmark.find({ user: req.user!.userId }).distinct('post');
+    const visibleIds = await Post.find({ _id: { $in: bookmarkedIds }, ...postVisibilityFilter(req.user!) }).distinct('_id');
+    const filter = { user: req.user!.userId, post: { $in: visibleIds } };
+
+    const [bookmarks, total] = await Promise.all([
+        Bookmark.find(filter)
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        Bookmark.countDocuments(filter),
+    ]);
+
+    const pageIds = bookmarks.map((bookmark) => bookmark.post);
+    const posts = await Post.find({ _id: { $in: pageIds } })
+        .populate('category', 'name slug')
+        .lean();
+    const [withAuthors, reactions] = await Promise.all([
+        attachAuthors(posts),
+        reactionSummaries(pageIds, req.user!.userId),
+    ]);
+    const postsById = new Map(withAuthors.map((post) => [String(post._id), post]));
+    const baseUrl = apiBaseUrl(req);
+
+    res.json({
+        // A post purged since the page was counted is left out rather than failing the request
+        bookmarks: bookmarks.flatMap((bookmark) => {
+            const post = postsById.get(String(bookmark.post));
+            return post
+                ? [{
+                    bookmarkedAt: bookmark.createdAt,
+                    post: { ...serializePost(post, baseUrl), ...reactions.get(String(bookmark.post)) },
+                }]
+                : [];
+        }),
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalBookmarks: total,
+    });
+});
+
+/**
+ * @openapi
+ * /user:
+ *   get:
+ *     summary: Get user by ID
+ *     description: Returns a user's profile, their posts and follower statistics. Email, bio and contact fields are only included when the user's visibility settings allow the current user to see them. Follow or unfollow the user with `PUT`/`DELETE /user/follow`. Requires authentication.
+ *     tags:
+ *       - User
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: UserId
+ *     responses:
+ *       200:
+ *         description: User profile retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   $ref: '#/components/schemas/PublicProfile'
  *                 posts:
  *                   type: array
  *                   items:
@@ -117,8 +569,18 @@ router.get('/me', authenticate, async (req: Request, res: Response) => {
  *                         type: string
  *                         format: date-time
  *                         example: '2026-01-31T10:30:00Z'
+ *                 followerCount:
+ *                   type: integer
+ *                   example: 12
+ *                 followingCount:
+ *                   type: integer
+ *                   example: 4
+ *                 isFollowing:
+ *                   type: boolean
+ *                   description: Whether the current user follows this user
+ *                   example: false
  *       400:
- *         description: User ID is required
+ *         description: Missing or invalid user ID
  *         content:
  *           application/json:
  *             schema:
@@ -142,53 +604,221 @@ router.get('/me', authenticate, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/', authenticate, async (req: Request, res: Response) => {
-    try {
-        const userId = req.query.id as string;
-        
-        if (!userId) {
-            return res.status(400).json({ message: 'User ID is required' });
-        }
-
-        const user = await User.findOne({ googleId: userId });
-        
-        if (!user) {
-            return res.status(404).json({ message: 'User not found' });
-        }
-
-        const posts = await Post.find({ author: userId }).select('title createdAt');
-
-        return res.json({ 
-            user,
-            posts
-        });
-    } catch (error) {
-        res.status(500).json({ message:`Server error: ${error}` });
+router.get('/', authenticate, validate(userIdSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof userIdSchemas>(req);
+
+    const user = await User.findOne({ uid: query.id, deletedAt: null });
+    
+    if (!user) {
+        throw notFound('User not found');
     }
+
+    const [posts, follows] = await Promise.all([
+        Post.find({ author: query.id, ...postVisibilityFilter(req.user!) }).select('title createdAt'),
+        followStats(query.id, req.user!.userId),
+    ]);
+
+    return res.json({ 
+        user: publicProfile(user, req.user!),
+        posts,
+        ...follows,
+    });
 });
 
 
+/**
+ * @openapi
+ * /user/list:
+ *   get:
+ *     summary: List and search users (Admin only)
+ *     description: Returns a paginated list of users sorted by name, optionally filtered by a name/email search and role. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - User
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ListUsers
+ *     responses:
+ *       200:
+ *         description: Users retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserPage'
+ *       400:
+ *         description: Invalid role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/list', authenticate, requireAdmin, validate(listUsersSchemas), async (req: Request, res: Response) => {
+    const { query } = validated<typeof listUsersSchemas>(req);
+    const limit = 20;
+    const skip = (query.page - 1) * limit;
+
+    const filter: Record<string, unknown> = { deletedAt: null };
+    if (query.role) filter.role = query.role;
+    if (query.q) {
+        const pattern = new RegExp(escapeRegExp(query.q), 'i');
+        filter.$or = [{ name: pattern }, { email: pattern }];
+    }
+
+    const [users, total] = await Promise.all([
+        User.find(filter)
+            .select('uid name email picture role')
+            .sort({ name: 1 })
+            .skip(skip)
+            .limit(limit),
+        User.countDocuments(filter),
+    ]);
+
+    res.json({
+        users,
+        currentPage: query.page,
+        totalPages: Math.ceil(total / limit),
+        totalUsers: total,
+    });
+});
+
+/**
+ * @openapi
+ * /user/role:
+ *   put:
+ *     summary: Promote or demote a user (Admin only)
+ *     description: |
+ *       Changes a user's role and notifies the user. All outstanding tokens of the user are revoked so that the new role applies immediately.
+ *       The last remaining admin cannot be demoted. Requires admin role and JWT token in Authorization header.
+ *     tags:
+ *       - User
+ *     security:
+ *       - bearerAuth: []
+ *     x-validation: ChangeRole
+ *     responses:
+ *       200:
+ *         description: Role updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Role updated successfully
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         description: User ID is required or invalid role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The last admin cannot be demoted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/role', authenticate, requireAdmin, validate(changeRoleSchemas), async (req: Request, res: Response) => {
+    const { query, body } = validated<typeof changeRoleSchemas>(req);
+
+    const user = await User.findOne({ uid: query.id, deletedAt: null });
+
+    if (!user) {
+        throw notFound('User not found');
+    }
+
+    if (user.role === body.role) {
+        return res.json({ message: 'Role updated successfully', user });
+    }
+
+    if (body.role === 'user' && await isLastAdmin(user.uid)) {
+        throw conflict('The last admin cannot be demoted');
+    }
+
+    const before = snapshot(user);
+    const previousRole = user.role;
+    user.role = body.role;
+    await user.save();
+    await revokeUserTokens(user.uid);
+    await recordAudit({
+        actor: req.user!.userId,
+        action: 'user.role',
+        targetType: 'user',
+        targetId: user.uid,
+        before,
+        after: snapshot(user),
+    });
+    await notify({
+        recipient: user.uid,
+        type: 'user.role',
+        actor: req.user!.userId,
+        data: { role: user.role, previousRole },
+    });
+
+    res.json({ message: 'Role updated successfully', user });
+});
+
 /**
  * @openapi
  * /user:
  *   delete:
  *     summary: Delete user (Admin only)
- *     description: Deletes a user and all their posts. Requires admin role and JWT token in Authorization header.
+ *     description: |
+ *       Moves a user and all their posts to the trash, hides their comments and reactions and revokes the user's tokens.
+ *       Admins can restore them until they are purged together with the user's comments and attachments after the
+ *       retention period (`TRASH_RETENTION_DAYS`).
+ *       Requires admin role and JWT token in Authorization header.
  *     tags:
  *       - User
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: User's Google ID to delete
- *         example: '1234567890'
+ *     x-validation: UserId
  *     responses:
  *       200:
- *         description: User and all posts deleted successfully
+ *         description: User and all posts moved to the trash
  *         content:
  *           application/json:
  *             schema:
@@ -198,7 +828,7 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
  *                   type: string
  *                   example: User and all posts deleted successfully
  *       400:
- *         description: User ID is required
+ *         description: Missing or invalid user ID
  *         content:
  *           application/json:
  *             schema:
@@ -216,13 +846,21 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *             example:
+ *               code: FORBIDDEN
  *               message: Admin access required
+ *               details: null
  *       404:
  *         description: User not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The last admin cannot be deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Server error
  *         content:
@@ -230,25 +868,31 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/', authenticate, requireAdmin, async (req: Request, res: Response) => {
-    try {
-        const userId = req.query.id as string;
-        
-        if (!userId) {
-            return res.status(400).json({ message: 'User ID is required' });
-        }
+router.delete('/', authenticate, requireAdmin, validate(userIdSchemas), async (req: Request, res: Response) => {
+    const userId = validated<typeof userIdSchemas>(req).query.id;
 
-        await Post.deleteMany({ author: userId });
-        const user = await User.findOneAndDelete({ googleId: userId });
+    if (await isLastAdmin(userId)) {
+        throw conflict('The last admin cannot be deleted');
+    }
 
-        if (!user) {
-            return res.status(404).json({ message: 'User not found' });
-        }
+    const user = await User.findOne({ uid: userId, deletedAt: null });
 
-        res.json({ message: 'User and all posts deleted successfully' });
-    } catch (error) {
-        res.status(500).json({ message:`Server error: ${error}` });
+    if (!user) {
+        throw notFound('User not found');
     }
+
+    const before = snapshot(user);
+    await trashUser(user, req.user!.userId);
+    await recordAudit({
+        actor: req.user!.userId,
+        action: 'user.delete',
+        targetType: 'user',
+        targetId: userId,
+        before,
+        after: snapshot(user),
+    });
+
+    res.json({ message: 'User and all posts deleted successfully' });
 });
 
 export default router;
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { dateTime, page } from './common';
+
+export const listAuditSchemas = defineSchemas('ListAudit', {
+    query: z.object({
+        page,
+        actor: z.string().trim().min(1).optional()
+            .meta({ description: 'ID of the user who performed the action', example: '1234567890' }),
+        action: z.string().trim().min(1).optional()
+            .meta({ description: 'Action name, e.g. `post.delete`, or a prefix ending with a dot, e.g. `post.`', example: 'post.' }),
+        targetType: z.enum(['post', 'user', 'category', 'report']).optional()
+            .meta({ description: 'Type of the affected record' }),
+        targetId: z.string().trim().min(1).optional()
+            .meta({ description: 'ID of the affected record', example: '507f1f77bcf86cd799439011' }),
+        from: dateTime('Only return entries created at or after this date').optional(),
+        to: dateTime('Only return entries created at or before this date').optional(),
+    }),
+});
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+
+export const refreshTokenSchemas = defineSchemas('RefreshToken', {
+    body: z.object({
+        refreshToken: z.string().min(1).meta({
+            description: 'Refresh token received from OAuth or a previous refresh',
+            example: 'q8V1n3lJx0b...',
+        }),
+    }),
+});
+
+const email = z.string().trim().toLowerCase().pipe(z.email()).meta({ description: 'Email address used to sign in', example: 'john.doe@example.com' });
+
+export const registerSchemas = defineSchemas('Register', {
+    body: z.object({
+        email,
+        password: z.string().min(8).max(128).meta({ description: 'Between 8 and 128 characters', example: 'correct horse battery staple' }),
+        name: z.string().trim().min(1).max(100).meta({ description: 'Display name', example: 'John Doe' }),
+    }),
+});
+
+export const loginSchemas = defineSchemas('Login', {
+    body: z.object({
+        email,
+        password: z.string().min(1).meta({ example: 'correct horse battery staple' }),
+    }),
+});
+
+export const completeGoogleLinkSchemas = defineSchemas('CompleteGoogleLink', {
+    body: z.object({
+        code: z.string().min(1).meta({ description: '`linkCode` from the URL hash after the Google redirect', example: '4/0AbCD...' }),
+        state: z.string().min(1).meta({ description: '`linkState` from the URL hash after the Google redirect', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' }),
+    }),
+});
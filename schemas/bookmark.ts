@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { objectId, page } from './common';
+
+export const bookmarkSchemas = defineSchemas('Bookmark', {
+    query: z.object({
+        id: objectId('Post ID (MongoDB ObjectId)'),
+    }),
+});
+
+export const listBookmarksSchemas = defineSchemas('ListBookmarks', {
+    query: z.object({
+        page,
+    }),
+});
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { objectId } from './common';
+
+const categoryId = z.object({
+    id: objectId('Category ID (MongoDB ObjectId)'),
+});
+
+export const createCategorySchemas = defineSchemas('CreateCategory', {
+    body: z.object({
+        name: z.string().trim().min(1).meta({ example: 'Lost & Found' }),
+        slug: z.string().trim().optional().meta({ description: 'Derived from the name when not given', example: 'lost-found' }),
+        description: z.string().optional().meta({ example: 'Items lost or found on campus' }),
+    }),
+});
+
+export const updateCategorySchemas = defineSchemas('UpdateCategory', {
+    query: categoryId,
+    body: z.object({
+        name: z.string().trim().min(1).optional().meta({ example: 'Lost & Found' }),
+        slug: z.string().trim().optional().meta({ example: 'lost-found' }),
+        description: z.string().optional().meta({ example: 'Items lost or found on campus' }),
+    }),
+});
+
+export const categoryIdSchemas = defineSchemas('CategoryId', {
+    query: categoryId,
+});
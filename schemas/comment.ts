@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { objectId, page } from './common';
+
+const content = z.string().trim().min(1);
+
+const commentId = z.object({
+    id: objectId('Comment ID (MongoDB ObjectId)'),
+});
+
+export const listCommentsSchemas = defineSchemas('ListComments', {
+    query: z.object({
+        postId: objectId('Post ID (MongoDB ObjectId)'),
+        page,
+    }),
+});
+
+export const createCommentSchemas = defineSchemas('CreateComment', {
+    body: z.object({
+        postId: objectId('Post ID (MongoDB ObjectId)'),
+        parentId: objectId('ID of the top-level comment being replied to (optional)').nullable().optional(),
+        content: content.meta({ example: 'Is the parking lot closed on weekends too?' }),
+    }),
+});
+
+export const updateCommentSchemas = defineSchemas('UpdateComment', {
+    query: commentId,
+    body: z.object({
+        content: content.meta({ example: 'Edited comment text' }),
+    }),
+});
+
+export const commentIdSchemas = defineSchemas('CommentId', {
+    query: commentId,
+});
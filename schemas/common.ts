@@ -0,0 +1,26 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+
+export const objectId = (description: string) => z
+    .string()
+    .refine((value) => mongoose.isValidObjectId(value), 'Must be a valid ObjectId')
+    .meta({ description, example: '507f1f77bcf86cd799439011' });
+
+export const uid = (description: string) => z
+    .string()
+    .trim()
+    .min(1)
+    .meta({ description, example: '1234567890' });
+
+export const page = z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(1)
+    .meta({ description: 'Page number for pagination', example: 1 });
+
+export const dateTime = (description: string) => z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), 'Must be a valid date')
+    .transform((value) => new Date(value))
+    .meta({ description, format: 'date-time', example: '2026-01-31T10:30:00Z' });
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { uid } from './common';
+import { FEED_FORMATS } from '../utils/feed';
+
+export const feedSchemas = defineSchemas('Feed', {
+    params: z.object({
+        format: z.enum(FEED_FORMATS).meta({ description: 'RSS 2.0, Atom 1.0 or JSON Feed', example: 'rss' }),
+    }),
+    query: z.object({
+        author: uid('Only include posts by this author').optional(),
+        token: z.string().optional().meta({ description: 'Secret feed token from `PUT /user/me/feed-token`, used instead of the Authorization header' }),
+    }),
+});
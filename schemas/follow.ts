@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { page, uid } from './common';
+
+export const followUserSchemas = defineSchemas('FollowUser', {
+    query: z.object({
+        id: uid('ID of the author to follow or unfollow'),
+    }),
+});
+
+export const listFollowsSchemas = defineSchemas('ListFollows', {
+    query: z.object({
+        id: uid('User ID'),
+        page,
+    }),
+});
@@ -0,0 +1,17 @@
+// Importing every schema module fills the registry used by config/swagger.ts
+import './post';
+import './user';
+import './category';
+import './comment';
+import './revision';
+import './reaction';
+import './bookmark';
+import './follow';
+import './notification';
+import './feed';
+import './moderation';
+import './trash';
+import './audit';
+import './auth';
+
+export { schemaRegistry } from './registry';
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { objectId, page } from './common';
+
+export const reportPostSchemas = defineSchemas('ReportPost', {
+    query: z.object({
+        id: objectId('Post ID to report (MongoDB ObjectId)'),
+    }),
+    body: z.object({
+        reason: z.string().trim().min(1).max(500).meta({ example: 'Spam' }),
+    }),
+});
+
+export const moderationQueueSchemas = defineSchemas('ModerationQueue', {
+    query: z.object({
+        page,
+    }),
+});
+
+export const handleReportSchemas = defineSchemas('HandleReport', {
+    query: z.object({
+        id: objectId('Report ID (MongoDB ObjectId)'),
+    }),
+    body: z.object({
+        action: z.enum(['hide', 'restore', 'dismiss']).meta({ example: 'hide' }),
+    }),
+});
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { objectId, page } from './common';
+
+export const listNotificationsSchemas = defineSchemas('ListNotifications', {
+    query: z.object({
+        page,
+        unread: z.stringbool().optional().meta({ description: 'Only return unread notifications when `true`', example: 'true' }),
+    }),
+});
+
+export const notificationIdSchemas = defineSchemas('NotificationId', {
+    query: z.object({
+        id: objectId('Notification ID (MongoDB ObjectId)'),
+    }),
+});
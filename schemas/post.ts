@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { dateTime, objectId, page } from './common';
+
+export const MAX_TAGS = 10;
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+
+// Accepts an array or a comma-separated string, returns unique lowercase tags
+const normalizeTags = (tags: string | string[]): string[] => {
+    const list = Array.isArray(tags) ? tags : tags.split(',');
+    const normalized = list
+        .map((tag) => tag.trim().toLowerCase())
+        .filter((tag) => tag.length > 0);
+    return [...new Set(normalized)];
+};
+
+const tags = z
+    .union([z.array(z.string()), z.string()])
+    .transform(normalizeTags)
+    .refine((value) => value.length <= MAX_TAGS, `A post can have at most ${MAX_TAGS} tags`)
+    .meta({ description: 'Free-form tags stored lowercase, as an array or a comma-separated string', example: ['keys', 'building-b'] });
+
+const publishAt = dateTime('Keeps the post visible only to its author and admins until this date, null publishes immediately')
+    .nullable()
+    .optional();
+
+const expiresAt = (description: string) => dateTime(description).nullable().optional();
+
+const postId = z.object({
+    id: objectId('Post ID (MongoDB ObjectId)'),
+});
+
+export const listPostsSchemas = defineSchemas('ListPosts', {
+    query: z.object({
+        page,
+        limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE)
+            .meta({ description: 'Number of posts per page', example: 20 }),
+        cursor: z.string().optional()
+            .meta({
+                description: 'Opaque cursor returned as `nextCursor`, or an empty value to start cursor pagination',
+                example: 'WzE3Njk4NTU0MDAwMDAsIjUwN2YxZjc3YmNmODZjZDc5OTQzOTAxMSJd',
+            }),
+        q: z.string().trim().default('')
+            .meta({ description: 'Full-text search query. Supports quoted phrases and `-excluded` terms.', example: 'parking lot' }),
+        author: z.string().trim().min(1).optional()
+            .meta({ description: 'Only return posts by this author (user ID)', example: '1234567890' }),
+        category: z.string().trim().min(1).optional()
+            .meta({ description: 'Only return posts in this category (ID or slug)', example: 'lost-found' }),
+        tag: z.string().transform(normalizeTags).optional()
+            .meta({ description: 'Only return posts carrying all of these tags (comma-separated)', example: 'keys,building-b' }),
+        from: dateTime('Only return posts published at or after this date').optional(),
+        to: dateTime('Only return posts published at or before this date').optional(),
+        sort: z.enum(['relevance', 'date']).optional()
+            .meta({ description: 'Sort order. Defaults to `relevance` when `q` is given, otherwise `date` (most recently published first).' }),
+    }),
+});
+
+export const postIdSchemas = defineSchemas('PostId', {
+    query: postId,
+});
+
+export const createPostSchemas = defineSchemas('CreatePost', {
+    body: z.object({
+        title: z.string().trim().min(1).meta({ description: 'Post title', example: 'My New Post' }),
+        content: z.string().trim().min(1).meta({ description: 'Post content in Markdown', example: 'This is the content of my new post...' }),
+        category: z.string().trim().optional().meta({ description: 'Category ID or slug (optional)', example: 'lost-found' }),
+        tags: tags.optional(),
+        publishAt,
+        expiresAt: expiresAt('Archives the post after this date, null never expires'),
+    }),
+});
+
+export const updatePostSchemas = defineSchemas('UpdatePost', {
+    query: postId,
+    body: z.object({
+        title: z.string().trim().min(1).optional().meta({ description: 'New post title (optional)', example: 'Updated Post Title' }),
+        content: z.string().trim().min(1).optional().meta({ description: 'New post content in Markdown (optional)', example: 'This is the updated content...' }),
+        category: z.string().trim().nullable().optional()
+            .meta({ description: 'New category ID or slug, null or empty string removes the category (optional)', example: 'lost-found' }),
+        tags: tags.nullable().optional(),
+        publishAt,
+        expiresAt: expiresAt('Archives the post after this date, null never expires. Expired posts must be renewed instead.'),
+    }),
+});
+
+export const renewPostSchemas = defineSchemas('RenewPost', {
+    query: postId,
+    body: z.object({
+        expiresAt: dateTime('New expiry date, null keeps the post until it is deleted').nullable(),
+    }),
+});
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { objectId } from './common';
+import { REACTION_TYPES } from '../models/reaction';
+
+const postId = z.object({
+    id: objectId('Post ID (MongoDB ObjectId)'),
+});
+
+export const setReactionSchemas = defineSchemas('SetReaction', {
+    query: postId,
+    body: z.object({
+        type: z.enum(REACTION_TYPES).meta({ description: 'Replaces the caller\'s previous reaction on the post', example: 'like' }),
+    }),
+});
+
+export const removeReactionSchemas = defineSchemas('RemoveReaction', {
+    query: postId,
+});
@@ -0,0 +1,21 @@
+import { ZodType } from 'zod';
+
+export interface RequestSchemas {
+    params?: ZodType;
+    query?: ZodType;
+    body?: ZodType;
+}
+
+/**
+ * Request schemas by name. config/swagger.ts turns every entry into OpenAPI
+ * parameters and request bodies for operations marked with `x-validation: <name>`.
+ */
+export const schemaRegistry = new Map<string, RequestSchemas>();
+
+export const defineSchemas = <S extends RequestSchemas>(name: string, schemas: S): S => {
+    if (schemaRegistry.has(name)) {
+        throw new Error(`Request schemas ${name} are already defined`);
+    }
+    schemaRegistry.set(name, schemas);
+    return schemas;
+};
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { objectId, page } from './common';
+
+const version = (description: string) => z.coerce.number().int().min(1).meta({ description, example: 2 });
+
+const postId = objectId('Post ID (MongoDB ObjectId)');
+
+export const listRevisionsSchemas = defineSchemas('ListRevisions', {
+    query: z.object({
+        id: postId,
+        page,
+    }),
+});
+
+export const getRevisionSchemas = defineSchemas('GetRevision', {
+    query: z.object({
+        id: postId,
+        version: version('Revision number'),
+    }),
+});
+
+export const diffRevisionsSchemas = defineSchemas('DiffRevisions', {
+    query: z.object({
+        id: postId,
+        from: version('Older revision number'),
+        to: version('Newer revision number'),
+    }),
+});
+
+export const revertPostSchemas = defineSchemas('RevertPost', {
+    query: z.object({
+        id: postId,
+    }),
+    body: z.object({
+        version: version('Revision to restore'),
+    }),
+});
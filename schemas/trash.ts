@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { objectId, page, uid } from './common';
+
+export const trashPageSchemas = defineSchemas('TrashPage', {
+    query: z.object({
+        page,
+    }),
+});
+
+export const restorePostSchemas = defineSchemas('RestorePost', {
+    query: z.object({
+        id: objectId('Post ID to restore (MongoDB ObjectId)'),
+    }),
+});
+
+export const restoreUserSchemas = defineSchemas('RestoreUser', {
+    query: z.object({
+        id: uid('User ID'),
+    }),
+});
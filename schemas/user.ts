@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { defineSchemas } from './registry';
+import { page, uid } from './common';
+import { PROFILE_VISIBILITY } from '../models/user';
+
+const role = z.enum(['user', 'admin']);
+
+const userId = z.object({
+    id: uid('User ID'),
+});
+
+export const userIdSchemas = defineSchemas('UserId', {
+    query: userId,
+});
+
+export const listUsersSchemas = defineSchemas('ListUsers', {
+    query: z.object({
+        page,
+        q: z.string().trim().default('').meta({ description: 'Case-insensitive search in name and email', example: 'doe' }),
+        role: role.optional().meta({ description: 'Only return users with this role' }),
+    }),
+});
+
+export const changeRoleSchemas = defineSchemas('ChangeRole', {
+    query: userId,
+    body: z.object({
+        role: role.meta({ description: 'New role, `admin` promotes and `user` demotes', example: 'admin' }),
+    }),
+});
+
+const visibility = z.enum(PROFILE_VISIBILITY);
+
+// Empty strings clear optional profile fields
+export const updateProfileSchemas = defineSchemas('UpdateProfile', {
+    body: z.object({
+        name: z.string().trim().min(1).max(100).optional().meta({ description: 'Display name', example: 'John Doe' }),
+        bio: z.string().trim().max(500).optional().meta({ example: 'Third year computer science student' }),
+        phone: z.string().trim().max(32).optional().meta({ example: '+48 600 100 200' }),
+        website: z.union([z.literal(''), z.url({ protocol: /^https?$/ }).max(200)]).optional().meta({ example: 'https://johndoe.dev' }),
+        location: z.string().trim().max(100).optional().meta({ example: 'Kraków' }),
+        visibility: z.object({
+            email: visibility.optional(),
+            bio: visibility.optional(),
+            phone: visibility.optional(),
+            website: visibility.optional(),
+            location: visibility.optional(),
+        }).optional().meta({ description: 'Who can see each field: `public` (every signed-in user) or `private` (only you and admins). Following needs no approval, so there is no followers-only level' }),
+    }),
+});
+
+export const deleteAccountSchemas = defineSchemas('DeleteAccount', {
+    body: z.object({
+        confirmationToken: z.string().min(1).meta({
+            description: 'Token returned by `POST /user/me/deletion`',
+            example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        }),
+    }),
+});
@@ -0,0 +1,83 @@
+import jwt from 'jsonwebtoken';
+import Post from '../models/post';
+import { IUser } from '../models/user';
+import { revokeUserTokens } from './tokens';
+import { publishPostEvent } from './postEvents';
+import { recordAudit, snapshot } from './audit';
+
+/**
+ * Moves a user and all of their posts to the trash and signs them out everywhere.
+ * Posts are trashed with the same timestamp so that restoring the user brings back exactly these.
+ * Comments and reactions stay in place and are hidden while the user is in the trash.
+ */
+export const trashUser = async (user: IUser, actor: string) => {
+    const deletedAt = new Date();
+    const postIds = await Post.find({ author: user.uid, deletedAt: null }).distinct('_id');
+    await Post.updateMany(
+        { _id: { $in: postIds }, deletedAt: null },
+        { deletedAt, deletedBy: actor },
+    );
+    user.deletedAt = deletedAt;
+    user.deletedBy = actor;
+    await user.save();
+    await revokeUserTokens(user.uid);
+
+    const posts = await Post.find({ _id: { $in: postIds }, deletedAt });
+    posts.forEach((post) => publishPostEvent('post.deleted', post));
+};
+
+/**
+ * Takes a user and the posts trashed together with them out of the trash.
+ * Returns the number of restored posts.
+ */
+export const restoreUser = async (user: IUser) => {
+    const postIds = await Post.find({ author: user.uid, deletedAt: user.deletedAt }).distinct('_id');
+    const { modifiedCount } = await Post.updateMany(
+        { _id: { $in: postIds }, deletedAt: user.deletedAt },
+        { deletedAt: null, deletedBy: null },
+    );
+    user.deletedAt = null;
+    user.deletedBy = null;
+    await user.save();
+
+    const posts = await Post.find({ _id: { $in: postIds }, deletedAt: null });
+    posts.forEach((post) => publishPostEvent('post.updated', post));
+    return modifiedCount;
+};
+
+// Accounts the user deleted themselves can be reactivated by signing in during the grace period
+export const isSelfDeleted = (user: IUser) => Boolean(user.deletedAt) && user.deletedBy === user.uid;
+
+export const reactivateUser = async (user: IUser) => {
+    const before = snapshot(user);
+    await restoreUser(user);
+    await recordAudit({
+        actor: user.uid,
+        action: 'user.restore',
+        targetType: 'user',
+        targetId: user.uid,
+        before,
+        after: snapshot(user),
+    });
+};
+
+const DELETION_PURPOSE = 'delete-account';
+export const DELETION_CONFIRMATION_TTL_SECONDS = 10 * 60;
+
+/**
+ * Short-lived token that has to be sent back to `DELETE /user/me` to confirm deleting the account.
+ */
+export const createDeletionConfirmation = (userId: string) => jwt.sign(
+    { purpose: DELETION_PURPOSE, userId },
+    process.env.JWT_SECRET!,
+    { expiresIn: DELETION_CONFIRMATION_TTL_SECONDS, audience: DELETION_PURPOSE }
+);
+
+export const verifyDeletionConfirmation = (token: string, userId: string) => {
+    try {
+        const payload = jwt.verify(token, process.env.JWT_SECRET!, { audience: DELETION_PURPOSE }) as { purpose?: string; userId?: string };
+        return payload.purpose === DELETION_PURPOSE && payload.userId === userId;
+    } catch {
+        return false;
+    }
+};
@@ -0,0 +1,35 @@
+import { Document } from 'mongoose';
+import AuditLog, { IAuditLog } from '../models/auditLog';
+
+type AuditEntry = Pick<IAuditLog, 'actor' | 'action' | 'targetType' | 'targetId'> & {
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+};
+
+// Secrets that must never end up in the audit log, even when the document was loaded with them
+const SECRET_FIELDS = ['passwordHash', 'feedTokenHash'];
+
+/**
+ * Plain copy of a document for the before/after fields of an audit entry.
+ */
+export const snapshot = (doc: Document | null | undefined): Record<string, unknown> | null => {
+    if (!doc) return null;
+    const data = doc.toObject({ depopulate: true });
+    delete data.__v;
+    for (const field of SECRET_FIELDS) delete data[field];
+    return data;
+};
+
+// Audit entries outlive purged accounts, so user snapshots are kept free of personal data
+const USER_SNAPSHOT_FIELDS = ['_id', 'uid', 'role', 'deletedAt', 'deletedBy'];
+
+const withoutPersonalData = (data: Record<string, unknown> | null | undefined) => data
+    ? Object.fromEntries(USER_SNAPSHOT_FIELDS.filter((field) => field in data).map((field) => [field, data[field]]))
+    : data;
+
+export const recordAudit = async (entry: AuditEntry) => {
+    if (entry.targetType === 'user') {
+        entry = { ...entry, before: withoutPersonalData(entry.before), after: withoutPersonalData(entry.after) };
+    }
+    await AuditLog.create(entry);
+};
@@ -0,0 +1,25 @@
+import User from '../models/user';
+
+// Only fields that are always public, emails follow the owner's visibility settings
+const AUTHOR_FIELDS = 'uid name picture role';
+
+/**
+ * IDs of the users in the trash. Their comments and reactions are left out of
+ * read routes until the user is restored or purged.
+ */
+export const trashedUserIds = () => User.find({ deletedAt: { $ne: null } }).distinct('uid');
+
+/**
+ * Replaces the `author` user ID of every item with the author's profile.
+ * All authors are fetched in a single query.
+ */
+export const attachAuthors = async <T extends { author: string }>(items: T[], fields = AUTHOR_FIELDS) => {
+    const userIds = [...new Set(items.map((item) => item.author))];
+    const users = await User.find({ uid: { $in: userIds }, deletedAt: null }).select(fields).lean();
+    const usersById = new Map(users.map((user) => [user.uid, user]));
+
+    return items.map((item) => ({
+        ...item,
+        author: usersById.get(item.author) || null,
+    }));
+};
@@ -0,0 +1,48 @@
+import Bookmark from '../models/bookmark';
+import Comment from '../models/comment';
+import Follow from '../models/follow';
+import Notification from '../models/notification';
+import Post from '../models/post';
+import Reaction from '../models/reaction';
+import RefreshToken from '../models/refreshToken';
+import Report from '../models/report';
+import Revision from '../models/revision';
+import { IUser } from '../models/user';
+import { ownProfile } from './profiles';
+
+/**
+ * Everything stored about a user: their profile, posts (including trashed ones),
+ * comments, reactions, bookmarks, follows, notifications, reports, post revisions
+ * they made and sign-in sessions. Secrets such as token hashes are left out.
+ */
+export const exportUserData = async (user: IUser) => {
+    const userId = user.uid;
+
+    const [posts, comments, reactions, bookmarks, following, followers, notifications, reports, revisions, sessions] = await Promise.all([
+        Post.find({ author: userId }).sort({ createdAt: 1 }).lean(),
+        Comment.find({ author: userId }).sort({ createdAt: 1 }).lean(),
+        Reaction.find({ user: userId }).lean(),
+        Bookmark.find({ user: userId }).sort({ createdAt: 1 }).lean(),
+        Follow.find({ follower: userId }).select('following createdAt').lean(),
+        Follow.find({ following: userId }).select('follower createdAt').lean(),
+        Notification.find({ recipient: userId }).sort({ createdAt: 1 }).lean(),
+        Report.find({ reporter: userId }).select('post reason status createdAt').lean(),
+        Revision.find({ editor: userId }).sort({ createdAt: 1 }).lean(),
+        RefreshToken.find({ user: userId }).select('createdAt expiresAt revokedAt').lean(),
+    ]);
+
+    return {
+        exportedAt: new Date(),
+        profile: ownProfile(user),
+        posts,
+        comments,
+        reactions,
+        bookmarks,
+        following,
+        followers,
+        notifications,
+        reports,
+        revisions,
+        sessions,
+    };
+};
@@ -0,0 +1,32 @@
+import { QueryFilter } from 'mongoose';
+import Follow, { IFollow } from '../models/follow';
+import User from '../models/user';
+
+// Narrows `side` of the given follows to users that are not in the trash
+const activeSide = async (filter: QueryFilter<IFollow>, side: 'follower' | 'following') => {
+    const userIds = await Follow.find(filter).distinct(side);
+    const active = await User.find({ uid: { $in: userIds }, deletedAt: null }).distinct('uid');
+    return { ...filter, [side]: { $in: active } } as QueryFilter<IFollow>;
+};
+
+/**
+ * Filters matching the followers and the followed authors of a user,
+ * leaving out users that have been moved to the trash.
+ */
+export const followersFilter = (userId: string) => activeSide({ following: userId }, 'follower');
+
+export const followingFilter = (userId: string) => activeSide({ follower: userId }, 'following');
+
+/**
+ * Follower and following counts of a user and whether `viewer` follows them.
+ */
+export const followStats = async (userId: string, viewer: string) => {
+    const [followers, following] = await Promise.all([followersFilter(userId), followingFilter(userId)]);
+    const [followerCount, followingCount, isFollowing] = await Promise.all([
+        Follow.countDocuments(followers),
+        Follow.countDocuments(following),
+        Follow.exists({ follower: viewer, following: userId }),
+    ]);
+
+    return { followerCount, followingCount, isFollowing: Boolean(isFollowing) };
+};
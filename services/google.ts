@@ -0,0 +1,64 @@
+import jwt from 'jsonwebtoken';
+import { OAuth2Client } from 'google-auth-library';
+import { badRequest } from '../utils/errors';
+
+const redirectUrl = process.env.GOOGLE_REDIRECT_URL || 'http://localhost:3000/oauth';
+
+export const googleClient = () => new OAuth2Client(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    redirectUrl
+);
+
+/**
+ * Google sign-in URL, `state` is handed back to the OAuth callback unchanged.
+ */
+export const buildAuthUrl = (state?: string) => googleClient().generateAuthUrl({
+    access_type: 'offline',
+    scope: 'openid https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/userinfo.profile',
+    prompt: 'consent',
+    state,
+});
+
+/**
+ * Exchanges an authorization code from the OAuth callback for the verified Google profile.
+ */
+export const fetchGoogleProfile = async (code: string) => {
+    const client = googleClient();
+
+    const { tokens } = await client.getToken(code);
+    if (!tokens.id_token) throw badRequest('No id_token returned');
+
+    const ticket = await client.verifyIdToken({
+        idToken: tokens.id_token,
+        audience: process.env.GOOGLE_CLIENT_ID,
+    });
+
+    const payload = ticket.getPayload();
+    if (!payload?.sub || !payload.email || !payload.name) {
+        throw badRequest('Incomplete Google profile: missing sub/email/name');
+    }
+
+    return { sub: payload.sub, email: payload.email, name: payload.name, picture: payload.picture };
+};
+
+const LINK_PURPOSE = 'link-google';
+
+/**
+ * Signed OAuth `state` asking the callback to link the Google identity to `userId` instead of signing in.
+ */
+export const createLinkState = (userId: string) => jwt.sign(
+    { purpose: LINK_PURPOSE, userId },
+    process.env.JWT_SECRET!,
+    { expiresIn: '10m', audience: LINK_PURPOSE }
+);
+
+// Returns the user ID a link state was issued for, or null when it is invalid or expired
+export const verifyLinkState = (state: string) => {
+    try {
+        const payload = jwt.verify(state, process.env.JWT_SECRET!, { audience: LINK_PURPOSE }) as { purpose?: string; userId?: string };
+        return payload.purpose === LINK_PURPOSE && payload.userId ? payload.userId : null;
+    } catch {
+        return null;
+    }
+};
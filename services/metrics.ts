@@ -0,0 +1,78 @@
+import mongoose from 'mongoose';
+import client from 'prom-client';
+import Post from '../models/post';
+import User from '../models/user';
+
+export const registry = new client.Registry();
+
+client.collectDefaultMetrics({ register: registry });
+
+export const httpRequests = new client.Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests by method, route and status code',
+    labelNames: ['method', 'route', 'status'] as const,
+    registers: [registry],
+});
+
+export const httpRequestDuration = new client.Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency by method, route and status code',
+    labelNames: ['method', 'route', 'status'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [registry],
+});
+
+export const httpRequestsInFlight = new client.Gauge({
+    name: 'http_requests_in_flight',
+    help: 'HTTP requests currently being handled, open event streams included',
+    registers: [registry],
+});
+
+export const sseConnections = new client.Gauge({
+    name: 'sse_connections_active',
+    help: 'Open Server-Sent Events streams',
+    registers: [registry],
+});
+
+const mongoOperationDuration = new client.Histogram({
+    name: 'mongodb_operation_duration_seconds',
+    help: 'MongoDB command latency by command name and outcome',
+    labelNames: ['command', 'outcome'] as const,
+    buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+    registers: [registry],
+});
+
+const isConnected = () => mongoose.connection.readyState === mongoose.ConnectionStates.connected;
+
+// Domain gauges are counted when Prometheus scrapes, and keep their last value
+// while the database is unreachable so that the other metrics are still served
+new client.Gauge({
+    name: 'tabloid_posts',
+    help: 'Posts that are not in the trash',
+    registers: [registry],
+    async collect() {
+        if (isConnected()) this.set(await Post.countDocuments({ deletedAt: null }));
+    },
+});
+
+new client.Gauge({
+    name: 'tabloid_users',
+    help: 'Users that are not in the trash',
+    registers: [registry],
+    async collect() {
+        if (isConnected()) this.set(await User.countDocuments({ deletedAt: null }));
+    },
+});
+
+/**
+ * Records the duration of every MongoDB command. The client has to be
+ * connected with `monitorCommands: true`.
+ */
+export const instrumentMongo = (mongoClient: mongoose.mongo.MongoClient) => {
+    mongoClient.on('commandSucceeded', (event) => {
+        mongoOperationDuration.observe({ command: event.commandName, outcome: 'success' }, event.duration / 1000);
+    });
+    mongoClient.on('commandFailed', (event) => {
+        mongoOperationDuration.observe({ command: event.commandName, outcome: 'failure' }, event.duration / 1000);
+    });
+};
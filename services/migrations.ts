@@ -0,0 +1,37 @@
+import Post from '../models/post';
+import User from '../models/user';
+import logger from '../config/logger';
+
+/**
+ * Gives accounts created before local accounts existed their provider-neutral `uid`.
+ * It is their Google ID, which is what posts, comments and tokens already reference.
+ */
+export const migrateUserIds = async () => {
+    const { modifiedCount } = await User.updateMany(
+        { uid: { $exists: false } },
+        [{ $set: { uid: '$googleId' } }],
+        { updatePipeline: true },
+    );
+    // The Google ID index used to be required and unique, local accounts have none
+    await User.syncIndexes();
+
+    if (modifiedCount > 0) {
+        logger.info({ users: modifiedCount }, 'Assigned user IDs to existing users');
+    }
+};
+
+/**
+ * Gives posts created before listings were sorted by publication date their `publishedAt`,
+ * the scheduled date when there is one and the creation date otherwise.
+ */
+export const migratePublishedAt = async () => {
+    const { modifiedCount } = await Post.updateMany(
+        { publishedAt: { $exists: false } },
+        [{ $set: { publishedAt: { $ifNull: ['$publishAt', '$createdAt'] } } }],
+        { updatePipeline: true },
+    );
+
+    if (modifiedCount > 0) {
+        logger.info({ posts: modifiedCount }, 'Assigned publication dates to existing posts');
+    }
+};
@@ -0,0 +1,11 @@
+import Notification, { INotification } from '../models/notification';
+
+type NotificationEvent = Pick<INotification, 'recipient' | 'type' | 'actor' | 'post' | 'data'>;
+
+/**
+ * Notifies `recipient` of an action taken on their content. Users are never notified of their own actions.
+ */
+export const notify = async (event: NotificationEvent) => {
+    if (event.recipient === event.actor) return;
+    await Notification.create(event);
+};
@@ -0,0 +1,97 @@
+import { EventEmitter } from 'events';
+import { IPost } from '../models/post';
+import { canViewPost, postStatus, Viewer } from '../utils/visibility';
+
+export type PostEventType = 'post.created' | 'post.updated' | 'post.deleted';
+
+type VisibilityFields = Pick<IPost, 'author' | 'hidden' | 'deletedAt' | 'publishAt' | 'expiresAt' | 'archivedAt'>;
+
+export interface PostEvent {
+    id: string;
+    type: PostEventType;
+    data: Record<string, unknown>;
+    // State of the post when the event was published, decides who receives it
+    post: VisibilityFields;
+}
+
+const BUFFER_SIZE = parseInt(process.env.POST_EVENTS_BUFFER_SIZE as string) || 500;
+
+// Event IDs restart with every process, the prefix tells a restarted server's IDs apart
+const bootId = Date.now().toString(36);
+let sequence = 0;
+const buffer: PostEvent[] = [];
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+type PostEventSource = VisibilityFields & Pick<IPost, 'title' | 'tags' | 'createdAt' | 'updatedAt'> & {
+    _id: unknown;
+    category?: unknown;
+};
+
+/**
+ * Publishes a change of a post to every connected event stream and keeps it
+ * in a bounded buffer for clients that reconnect. Events only live in this process.
+ */
+export const publishPostEvent = (type: PostEventType, post: PostEventSource) => {
+    const event: PostEvent = {
+        id: `${bootId}-${++sequence}`,
+        type,
+        data: type === 'post.deleted'
+            ? { _id: post._id }
+            : {
+                _id: post._id,
+                title: post.title,
+                author: post.author,
+                category: post.category || null,
+                tags: post.tags || [],
+                status: postStatus(post),
+                createdAt: post.createdAt,
+                updatedAt: post.updatedAt,
+            },
+        post: {
+            author: post.author,
+            hidden: post.hidden,
+            deletedAt: post.deletedAt,
+            publishAt: post.publishAt,
+            expiresAt: post.expiresAt,
+            archivedAt: post.archivedAt,
+        },
+    };
+
+    buffer.push(event);
+    if (buffer.length > BUFFER_SIZE) buffer.shift();
+    emitter.emit('event', event);
+};
+
+export const subscribePostEvents = (listener: (event: PostEvent) => void) => {
+    emitter.on('event', listener);
+    return () => {
+        emitter.off('event', listener);
+    };
+};
+
+/**
+ * Buffered events published after `lastEventId`, or null when the ID is unknown
+ * or already dropped from the buffer and the client has to refetch instead.
+ */
+export const postEventsSince = (lastEventId: string): PostEvent[] | null => {
+    const [prefix, value] = lastEventId.split('-');
+    const last = Number(value);
+    if (prefix !== bootId || !Number.isInteger(last) || last > sequence) return null;
+
+    const oldest = buffer.length > 0 ? sequence - buffer.length + 1 : sequence + 1;
+    if (last < oldest - 1) return null;
+
+    return buffer.slice(buffer.length - (sequence - last));
+};
+
+/**
+ * The event as `viewer` receives it, or null when they should not receive it.
+ * Deletions are sent to everybody, they only reveal the ID of a post that is gone. An update that takes a
+ * post out of the viewer's sight, e.g. hiding it in moderation, reaches them as a deletion.
+ */
+export const postEventFor = (event: PostEvent, viewer: Viewer): PostEvent | null => {
+    if (event.type === 'post.deleted' || canViewPost(event.post, viewer)) return event;
+    if (event.type === 'post.updated') return { ...event, type: 'post.deleted', data: { _id: event.data._id } };
+    return null;
+};
@@ -0,0 +1,13 @@
+import { IPost } from '../models/post';
+import { serializePostDetail } from '../utils/posts';
+import { attachAuthors } from './authors';
+
+/**
+ * Shapes a post that was just saved the way GET /post returns it, minus the
+ * reaction counts, for the responses of the routes that create or change posts.
+ */
+export const serializeSavedPost = async (post: IPost, baseUrl: string) => {
+    await post.populate('category', 'name slug');
+    const [withAuthor] = await attachAuthors([post.toObject()]);
+    return serializePostDetail(withAuthor, baseUrl);
+};
@@ -0,0 +1,52 @@
+import { DEFAULT_PROFILE_VISIBILITY, IUser, PRIVATE_PROFILE_FIELDS } from '../models/user';
+
+interface ProfileViewer {
+    userId: string;
+    role: string;
+}
+
+/**
+ * The user's own view of their profile, including every field and the
+ * visibility settings.
+ */
+export const ownProfile = (user: IUser) => ({
+    uid: user.uid,
+    name: user.name,
+    email: user.email,
+    picture: user.picture,
+    role: user.role,
+    bio: user.bio ?? null,
+    phone: user.phone ?? null,
+    website: user.website ?? null,
+    location: user.location ?? null,
+    visibility: Object.fromEntries(PRIVATE_PROFILE_FIELDS.map((field) => [
+        field,
+        user.visibility?.[field] ?? DEFAULT_PROFILE_VISIBILITY[field],
+    ])),
+    hasPassword: Boolean(user.passwordHash),
+    googleLinked: Boolean(user.googleId),
+});
+
+/**
+ * The profile as seen by `viewer`. Name, picture and role are public, the other
+ * fields are only included when they are public. The user and admins see every field.
+ */
+export const publicProfile = (user: IUser, viewer: ProfileViewer) => {
+    const seesAll = viewer.userId === user.uid || viewer.role === 'admin';
+    const profile: Record<string, unknown> = {
+        uid: user.uid,
+        name: user.name,
+        picture: user.picture,
+        role: user.role,
+    };
+
+    for (const field of PRIVATE_PROFILE_FIELDS) {
+        const visibility = user.visibility?.[field] ?? DEFAULT_PROFILE_VISIBILITY[field];
+        const visible = seesAll || visibility === 'public';
+        if (visible && user[field]) {
+            profile[field] = user[field];
+        }
+    }
+
+    return profile;
+};
@@ -0,0 +1,52 @@
+import { Types } from 'mongoose';
+import Bookmark from '../models/bookmark';
+import Comment from '../models/comment';
+import Follow from '../models/follow';
+import Notification from '../models/notification';
+import Post from '../models/post';
+import Reaction from '../models/reaction';
+import RefreshToken from '../models/refreshToken';
+import Report from '../models/report';
+import Revision from '../models/revision';
+import User from '../models/user';
+import { removeImages } from '../utils/images';
+
+/**
+ * Permanently removes posts together with their comments, reports, revisions, reactions, bookmarks and attachments.
+ * Notifications about the posts are kept, they carry the title and are the author's only record of an admin deleting a post.
+ */
+export const purgePosts = async (postIds: Types.ObjectId[]) => {
+    if (postIds.length === 0) return;
+
+    const attachments = (await Post.find({ _id: { $in: postIds } }).select('attachments'))
+        .flatMap((post) => post.attachments);
+
+    await Comment.deleteMany({ post: { $in: postIds } });
+    await Report.deleteMany({ post: { $in: postIds } });
+    await Revision.deleteMany({ post: { $in: postIds } });
+    await Reaction.deleteMany({ post: { $in: postIds } });
+    await Bookmark.deleteMany({ post: { $in: postIds } });
+    await Post.deleteMany({ _id: { $in: postIds } });
+    await removeImages(attachments);
+};
+
+/**
+ * Permanently removes a user, all of their posts and everything they contributed.
+ */
+export const purgeUser = async (userId: string) => {
+    const [postIds, commentIds] = await Promise.all([
+        Post.find({ author: userId }).distinct('_id'),
+        Comment.find({ author: userId, parent: null }).distinct('_id'),
+    ]);
+
+    await purgePosts(postIds);
+    // Replies to the user's comments go too, there would be nothing left to reply to
+    await Comment.deleteMany({ $or: [{ author: userId }, { parent: { $in: commentIds } }] });
+    await Report.deleteMany({ reporter: userId });
+    await Reaction.deleteMany({ user: userId });
+    await Bookmark.deleteMany({ user: userId });
+    await Follow.deleteMany({ $or: [{ follower: userId }, { following: userId }] });
+    await Notification.deleteMany({ recipient: userId });
+    await RefreshToken.deleteMany({ user: userId });
+    await User.deleteOne({ uid: userId });
+};
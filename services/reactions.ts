@@ -0,0 +1,38 @@
+import { Types } from 'mongoose';
+import Reaction, { REACTION_TYPES, ReactionType } from '../models/reaction';
+import { trashedUserIds } from './authors';
+
+export interface ReactionSummary {
+    reactions: Record<ReactionType, number>;
+    myReaction: ReactionType | null;
+}
+
+const emptyCounts = () => Object.fromEntries(REACTION_TYPES.map((type) => [type, 0])) as Record<ReactionType, number>;
+
+/**
+ * Reaction counts per type and the viewer's own reaction for every given post,
+ * keyed by post ID. Posts without reactions get zero counts, reactions of users
+ * in the trash are not counted.
+ */
+export const reactionSummaries = async (postIds: Types.ObjectId[], viewer: string) => {
+    const trashed = await trashedUserIds();
+    const [counts, own] = await Promise.all([
+        Reaction.aggregate<{ _id: { post: Types.ObjectId; type: ReactionType }; count: number }>([
+            { $match: { post: { $in: postIds }, user: { $nin: trashed } } },
+            { $group: { _id: { post: '$post', type: '$type' }, count: { $sum: 1 } } },
+        ]),
+        Reaction.find({ post: { $in: postIds }, user: viewer }).select('post type').lean(),
+    ]);
+
+    const summaries = new Map<string, ReactionSummary>(
+        postIds.map((id) => [String(id), { reactions: emptyCounts(), myReaction: null }]),
+    );
+    for (const { _id, count } of counts) {
+        summaries.get(String(_id.post))!.reactions[_id.type] = count;
+    }
+    for (const reaction of own) {
+        summaries.get(String(reaction.post))!.myReaction = reaction.type;
+    }
+
+    return summaries;
+};
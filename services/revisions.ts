@@ -0,0 +1,45 @@
+import { Types } from 'mongoose';
+import Revision from '../models/revision';
+
+interface RevisedPost {
+    _id: Types.ObjectId;
+    title: string;
+    content: string;
+    author: string;
+}
+
+interface RevisionOptions {
+    // Title and content before the edit, stored first for posts without any revision yet
+    previous?: { title: string; content: string; updatedAt: Date };
+    revertedFrom?: number;
+}
+
+/**
+ * Stores the current title and content of a post as its next revision.
+ */
+export const recordRevision = async (post: RevisedPost, editor: string, options: RevisionOptions = {}) => {
+    const latest = await Revision.findOne({ post: post._id }).sort({ version: -1 }).select('version');
+    let version = latest?.version || 0;
+
+    // Posts created before revisions were tracked get their original state as version 1
+    if (!latest && options.previous) {
+        version = 1;
+        await Revision.create({
+            post: post._id,
+            version,
+            title: options.previous.title,
+            content: options.previous.content,
+            editor: post.author,
+            createdAt: options.previous.updatedAt,
+        });
+    }
+
+    return Revision.create({
+        post: post._id,
+        version: version + 1,
+        title: post.title,
+        content: post.content,
+        editor,
+        revertedFrom: options.revertedFrom ?? null,
+    });
+};
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import RefreshToken from '../models/refreshToken';
+import User, { IUser } from '../models/user';
+
+const ACCESS_TOKEN_TTL = (process.env.ACCESS_TOKEN_TTL || '15m') as jwt.SignOptions['expiresIn'];
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS as string) || 30;
+
+// Every JWT signed with JWT_SECRET names what it is for, only tokens with this audience authenticate requests
+export const ACCESS_TOKEN_AUDIENCE = 'access';
+
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export interface IssuedTokens {
+    token: string;
+    refreshToken: string;
+}
+
+/**
+ * Signs a short-lived access token and stores a new refresh token for the user.
+ */
+export const issueTokens = async (user: IUser): Promise<IssuedTokens> => {
+    const token = jwt.sign(
+        { userId: user.uid, email: user.email, role: user.role, tokenVersion: user.tokenVersion || 0 },
+        process.env.JWT_SECRET!,
+        { expiresIn: ACCESS_TOKEN_TTL, audience: ACCESS_TOKEN_AUDIENCE }
+    );
+
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+    await RefreshToken.create({
+        user: user.uid,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    });
+
+    return { token, refreshToken };
+};
+
+/**
+ * Invalidates all outstanding access and refresh tokens of a user.
+ */
+export const revokeUserTokens = async (userId: string) => {
+    await User.updateOne({ uid: userId }, { $inc: { tokenVersion: 1 } });
+    await RefreshToken.updateMany({ user: userId, revokedAt: null }, { revokedAt: new Date() });
+};
+
+/**
+ * Exchanges a refresh token for a new token pair. Every refresh token can be
+ * used once; presenting an already rotated token is treated as theft and
+ * revokes every session of its owner. Returns null for unusable tokens.
+ */
+export const rotateRefreshToken = async (refreshToken: string): Promise<IssuedTokens | null> => {
+    const tokenHash = hashToken(refreshToken);
+
+    // Claim the token atomically so that concurrent refreshes cannot both succeed
+    const stored = await RefreshToken.findOneAndUpdate(
+        { tokenHash, revokedAt: null, expiresAt: { $gt: new Date() } },
+        { revokedAt: new Date() },
+    );
+
+    if (!stored) {
+        const reused = await RefreshToken.findOne({ tokenHash, revokedAt: { $ne: null } });
+        if (reused) await revokeUserTokens(reused.user);
+        return null;
+    }
+
+    const user = await User.findOne({ uid: stored.user, deletedAt: null });
+    if (!user) return null;
+
+    const issued = await issueTokens(user);
+    await RefreshToken.updateOne({ _id: stored._id }, { replacedBy: hashToken(issued.refreshToken) });
+
+    return issued;
+};
+
+export const revokeRefreshToken = async (refreshToken: string) => {
+    await RefreshToken.updateOne({ tokenHash: hashToken(refreshToken), revokedAt: null }, { revokedAt: new Date() });
+};
+
+/**
+ * Replaces the user's feed token with a new one. Only the hash is stored,
+ * the token itself is returned once.
+ */
+export const issueFeedToken = async (userId: string) => {
+    const feedToken = crypto.randomBytes(32).toString('base64url');
+    await User.updateOne({ uid: userId }, { feedTokenHash: hashToken(feedToken) });
+    return feedToken;
+};
+
+export const revokeFeedToken = async (userId: string) => {
+    await User.updateOne({ uid: userId }, { $unset: { feedTokenHash: 1 } });
+};
@@ -0,0 +1,27 @@
+import { Readable } from 'stream';
+import LocalStorage from './local';
+
+/**
+ * Backend used to persist uploaded files. Keys are flat, unique file names
+ * generated by the API, never user input.
+ */
+export interface StorageDriver {
+    save(key: string, data: Buffer): Promise<void>;
+    read(key: string): Promise<Readable | null>;
+    remove(key: string): Promise<void>;
+}
+
+const createStorage = (): StorageDriver => {
+    const driver = process.env.STORAGE_DRIVER || 'local';
+
+    switch (driver) {
+        case 'local':
+            return new LocalStorage(process.env.UPLOAD_DIR || 'uploads');
+        default:
+            throw new Error(`Unknown storage driver: ${driver}`);
+    }
+};
+
+const storage = createStorage();
+
+export default storage;
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import type { StorageDriver } from './index';
+
+const SAFE_KEY = /^[A-Za-z0-9_-]+\.[a-z0-9]+$/;
+
+/**
+ * Stores files in a directory on the local disk.
+ */
+class LocalStorage implements StorageDriver {
+    private readonly root: string;
+
+    constructor(root: string) {
+        this.root = path.resolve(root);
+    }
+
+    private resolve(key: string) {
+        if (!SAFE_KEY.test(key)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return path.join(this.root, key);
+    }
+
+    async save(key: string, data: Buffer): Promise<void> {
+        await fs.promises.mkdir(this.root, { recursive: true });
+        await fs.promises.writeFile(this.resolve(key), data);
+    }
+
+    async read(key: string): Promise<Readable | null> {
+        if (!SAFE_KEY.test(key)) return null;
+
+        const filePath = this.resolve(key);
+        try {
+            await fs.promises.access(filePath, fs.constants.R_OK);
+        } catch {
+            return null;
+        }
+        return fs.createReadStream(filePath);
+    }
+
+    async remove(key: string): Promise<void> {
+        await fs.promises.rm(this.resolve(key), { force: true });
+    }
+}
+
+export default LocalStorage;
@@ -0,0 +1,25 @@
+import { Types } from 'mongoose';
+
+export interface Cursor {
+    publishedAt: Date;
+    id: Types.ObjectId;
+}
+
+/**
+ * Opaque cursor pointing just after the given document in a newest-first listing.
+ */
+export const encodeCursor = (doc: { publishedAt: Date; _id: unknown }) =>
+    Buffer.from(JSON.stringify([doc.publishedAt.getTime(), String(doc._id)])).toString('base64url');
+
+/**
+ * Returns null when the cursor was not produced by encodeCursor.
+ */
+export const decodeCursor = (cursor: string): Cursor | null => {
+    try {
+        const [time, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (typeof time !== 'number' || !Types.ObjectId.isValid(id)) return null;
+        return { publishedAt: new Date(time), id: new Types.ObjectId(id) };
+    } catch {
+        return null;
+    }
+};
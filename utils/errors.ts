@@ -0,0 +1,32 @@
+/**
+ * Error with an HTTP status, turned into a `{ code, message, details }`
+ * response by the error handling middleware.
+ */
+export class ApiError extends Error {
+    readonly status: number;
+    readonly code: string;
+    readonly details: unknown;
+
+    constructor(status: number, code: string, message: string, details: unknown = null) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.code = code;
+        this.details = details;
+    }
+}
+
+export const badRequest = (message: string, details?: unknown) =>
+    new ApiError(400, 'BAD_REQUEST', message, details);
+
+export const unauthorized = (message: string) =>
+    new ApiError(401, 'UNAUTHORIZED', message);
+
+export const forbidden = (message: string) =>
+    new ApiError(403, 'FORBIDDEN', message);
+
+export const notFound = (message: string) =>
+    new ApiError(404, 'NOT_FOUND', message);
+
+export const conflict = (message: string) =>
+    new ApiError(409, 'CONFLICT', message);
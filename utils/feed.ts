@@ -0,0 +1,73 @@
+import { Feed } from 'feed';
+import { escapeHtml } from './search';
+
+export const FEED_FORMATS = ['rss', 'atom', 'json'] as const;
+
+export type FeedFormat = typeof FEED_FORMATS[number];
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+    rss: 'application/rss+xml; charset=utf-8',
+    atom: 'application/atom+xml; charset=utf-8',
+    json: 'application/feed+json; charset=utf-8',
+};
+
+const FEED_TITLE = process.env.FEED_TITLE || 'Tabloid';
+// `{id}` is replaced with the post ID, points to the API unless a frontend URL is configured
+const FEED_POST_URL = process.env.FEED_POST_URL;
+
+export interface FeedPost {
+    _id: unknown;
+    title: string;
+    contentHtml: string;
+    excerpt: string;
+    publishedAt: Date;
+    updatedAt: Date;
+    category?: { name: string } | null;
+    author: { name: string } | null;
+    image?: string;
+}
+
+/**
+ * Renders the posts, newest first, as an RSS 2.0, Atom 1.0 or JSON Feed 1 document.
+ * `baseUrl` is the absolute API URL, `path` the feed's own path without the secret token
+ * and `subtitle` narrows the title down.
+ */
+export const renderFeed = (format: FeedFormat, posts: FeedPost[], baseUrl: string, path: string, subtitle?: string) => {
+    const postUrl = FEED_POST_URL || `${baseUrl}/post?id={id}`;
+    const feed = new Feed({
+        id: `${baseUrl}${path}`,
+        title: subtitle ? `${FEED_TITLE} – ${subtitle}` : FEED_TITLE,
+        description: subtitle ? `Latest posts by ${subtitle}` : 'Latest posts',
+        link: baseUrl,
+        updated: posts.reduce<Date | undefined>((latest, post) => (!latest || post.updatedAt > latest ? post.updatedAt : latest), undefined),
+        generator: FEED_TITLE,
+        feedLinks: { [format]: `${baseUrl}${path}` },
+        copyright: '',
+    });
+
+    for (const post of posts) {
+        const link = postUrl.replace('{id}', String(post._id));
+        feed.addItem({
+            title: post.title,
+            id: link,
+            link,
+            date: post.updatedAt,
+            published: post.publishedAt,
+            // Summaries are HTML in RSS and Atom but plain text in JSON Feed
+            description: format === 'json' ? post.excerpt : escapeHtml(post.excerpt),
+            content: post.contentHtml,
+            author: post.author ? [{ name: post.author.name }] : undefined,
+            category: post.category ? [{ name: post.category.name }] : undefined,
+            image: post.image,
+        });
+    }
+
+    switch (format) {
+        case 'rss':
+            return feed.rss2();
+        case 'atom':
+            return feed.atom1();
+        case 'json':
+            return feed.json1();
+    }
+};
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import storage from '../storage';
+import { IAttachment } from '../models/post';
+import { ApiError } from './errors';
+
+const THUMBNAIL_SIZE = 320;
+
+const extensions: Record<string, string> = {
+    jpeg: 'jpg',
+    png: 'png',
+    webp: 'webp',
+    gif: 'gif',
+};
+
+export class InvalidImageError extends ApiError {
+    constructor(message: string) {
+        super(400, 'INVALID_IMAGE', message);
+        this.name = 'InvalidImageError';
+    }
+}
+
+/**
+ * Validates an uploaded image by decoding it, then stores the original and a
+ * WebP thumbnail. Throws InvalidImageError when the file is not a supported image.
+ */
+export const storeImage = async (file: Express.Multer.File): Promise<IAttachment> => {
+    let metadata: sharp.Metadata;
+    try {
+        metadata = await sharp(file.buffer).metadata();
+    } catch {
+        throw new InvalidImageError(`${file.originalname} is not a valid image`);
+    }
+
+    const extension = metadata.format && extensions[metadata.format];
+    if (!extension) {
+        throw new InvalidImageError(`${file.originalname} is not a supported image format`);
+    }
+
+    const id = crypto.randomUUID();
+    const key = `${id}.${extension}`;
+    const thumbnailKey = `${id}_thumb.webp`;
+
+    const thumbnail = await sharp(file.buffer)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+
+    await storage.save(key, file.buffer);
+    await storage.save(thumbnailKey, thumbnail);
+
+    return {
+        key,
+        thumbnailKey,
+        mimeType: `image/${metadata.format}`,
+        size: file.size,
+        width: metadata.width,
+        height: metadata.height,
+        originalName: file.originalname,
+    };
+};
+
+export const removeImages = async (attachments: IAttachment[]) => {
+    await Promise.all(attachments.flatMap((attachment) => [
+        storage.remove(attachment.key),
+        storage.remove(attachment.thumbnailKey),
+    ]));
+};
+
+// `baseUrl` is the absolute API URL from apiBaseUrl
+export const attachmentUrls = (attachment: IAttachment, baseUrl: string) => ({
+    url: `${baseUrl}/attachments/${attachment.key}`,
+    thumbnailUrl: `${baseUrl}/attachments/${attachment.thumbnailKey}`,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    width: attachment.width,
+    height: attachment.height,
+    originalName: attachment.originalName,
+});
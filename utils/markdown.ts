@@ -0,0 +1,48 @@
+import { marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+
+const EXCERPT_LENGTH = 280;
+
+const sanitizeOptions: sanitizeHtml.IOptions = {
+    allowedTags: [...sanitizeHtml.defaults.allowedTags, 'img', 'del'],
+    allowedAttributes: {
+        a: ['href', 'title', 'rel', 'target'],
+        img: ['src', 'alt', 'title'],
+        code: ['class'],
+        ol: ['start'],
+        th: ['align'],
+        td: ['align'],
+    },
+    allowedSchemes: ['http', 'https', 'mailto'],
+    allowedSchemesByTag: { img: ['http', 'https'] },
+    transformTags: {
+        a: sanitizeHtml.simpleTransform('a', { rel: 'nofollow noopener noreferrer', target: '_blank' }),
+    },
+};
+
+/**
+ * Plain text of a rendered post, cut at a word boundary after about `EXCERPT_LENGTH` characters.
+ */
+const toExcerpt = (html: string) => {
+    const text = sanitizeHtml(html, { allowedTags: [], allowedAttributes: {} })
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, '\'')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    if (text.length <= EXCERPT_LENGTH) return text;
+    return `${text.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, '')}…`;
+};
+
+/**
+ * Renders Markdown post content to HTML that is safe to embed as is, raw HTML
+ * in the source is reduced to a small set of formatting tags.
+ */
+export const renderMarkdown = (source: string) => {
+    const html = sanitizeHtml(marked.parse(source, { async: false, gfm: true }), sanitizeOptions);
+    return { html, excerpt: toExcerpt(html) };
+};
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number, options: crypto.ScryptOptions) => Promise<Buffer>;
+
+// OWASP recommended scrypt cost parameters
+const COST = 2 ** 17;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const MAX_MEMORY = 256 * 1024 * 1024;
+
+/**
+ * Hashes a password with scrypt and a random salt. The parameters are stored
+ * with the hash so that they can be raised later without breaking old hashes.
+ */
+export const hashPassword = async (password: string) => {
+    const salt = crypto.randomBytes(16);
+    const key = await scrypt(password, salt, KEY_LENGTH, { N: COST, r: BLOCK_SIZE, p: PARALLELIZATION, maxmem: MAX_MEMORY });
+    return ['scrypt', COST, BLOCK_SIZE, PARALLELIZATION, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+    const [algorithm, cost, blockSize, parallelization, salt, hash] = stored.split('$');
+    if (algorithm !== 'scrypt' || !hash) return false;
+
+    const expected = Buffer.from(hash, 'base64');
+    const key = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+        N: Number(cost),
+        r: Number(blockSize),
+        p: Number(parallelization),
+        maxmem: MAX_MEMORY,
+    });
+    return crypto.timingSafeEqual(key, expected);
+};
@@ -0,0 +1,46 @@
+import { IPost } from '../models/post';
+import { attachmentUrls } from './images';
+import { renderMarkdown } from './markdown';
+import { postStatus } from './visibility';
+
+type SerializablePost = Pick<IPost, 'title' | 'content' | 'contentHtml' | 'excerpt' | 'tags' | 'attachments' | 'publishAt' | 'publishedAt' | 'expiresAt' | 'archivedAt' | 'createdAt' | 'updatedAt'> & {
+    _id: unknown;
+    category?: unknown;
+    author: unknown;
+};
+
+// Posts saved before content was rendered on save are rendered on the fly
+const rendered = (post: SerializablePost) => (post.contentHtml !== undefined && post.excerpt !== undefined
+    ? { html: post.contentHtml, excerpt: post.excerpt }
+    : renderMarkdown(post.content));
+
+const serialize = <T extends SerializablePost>(post: T, baseUrl: string, excerpt: string) => ({
+    _id: post._id,
+    title: post.title,
+    excerpt,
+    category: post.category || null,
+    tags: post.tags || [],
+    attachments: (post.attachments || []).map((attachment) => attachmentUrls(attachment, baseUrl)),
+    publishAt: post.publishAt || null,
+    expiresAt: post.expiresAt || null,
+    status: postStatus(post),
+    publishedAt: post.publishedAt,
+    createdAt: post.createdAt,
+    updatedAt: post.updatedAt,
+    author: post.author,
+});
+
+// Public shape of a post in listings, `post` is a lean document with the author already attached
+// and `baseUrl` the absolute API URL the attachment links point to
+export const serializePost = <T extends SerializablePost>(post: T, baseUrl: string) =>
+    serialize(post, baseUrl, rendered(post).excerpt);
+
+// A single post additionally carries its Markdown source and the rendered HTML
+export const serializePostDetail = <T extends SerializablePost>(post: T, baseUrl: string) => {
+    const { html, excerpt } = rendered(post);
+    return {
+        ...serialize(post, baseUrl, excerpt),
+        content: post.content,
+        contentHtml: html,
+    };
+};
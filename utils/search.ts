@@ -0,0 +1,71 @@
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Extracts the terms worth highlighting from a MongoDB `$search` string.
+ * Quoted phrases are kept whole, negated terms (`-word`) are dropped.
+ */
+export const extractSearchTerms = (query: string): string[] => {
+    const terms: string[] = [];
+    const tokenizer = /"([^"]+)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tokenizer.exec(query)) !== null) {
+        const term = (match[1] ?? match[2]).trim();
+        if (!term || term.startsWith('-')) continue;
+        terms.push(term);
+    }
+
+    return terms;
+};
+
+const termsPattern = (terms: string[]) => {
+    if (terms.length === 0) return null;
+    // Longest first so that a phrase wins over the single words it contains
+    const sorted = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+    return new RegExp(`(${sorted.join('|')})`, 'gi');
+};
+
+/**
+ * HTML-escapes `text` and wraps every occurrence of the search terms in `<mark>`.
+ */
+export const highlight = (text: string, terms: string[]): string => {
+    const pattern = termsPattern(terms);
+    if (!pattern) return escapeHtml(text);
+
+    return text
+        .split(pattern)
+        .map((part, index) => (index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+        .join('');
+};
+
+/**
+ * Returns a highlighted excerpt of `text` centred on the first match of the search terms.
+ */
+export const buildSnippet = (text: string, terms: string[], radius = 80): string => {
+    const pattern = termsPattern(terms);
+    const firstMatch = pattern ? text.search(new RegExp(pattern.source, 'i')) : -1;
+    const center = firstMatch === -1 ? 0 : firstMatch;
+
+    let start = Math.max(0, center - radius);
+    let end = Math.min(text.length, center + radius * 2);
+
+    // Avoid cutting words in half at either edge of the window
+    if (start > 0) {
+        const space = text.indexOf(' ', start);
+        if (space !== -1 && space < center) start = space + 1;
+    }
+    if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        if (space > center) end = space;
+    }
+
+    const excerpt = text.slice(start, end);
+    return `${start > 0 ? '…' : ''}${highlight(excerpt, terms)}${end < text.length ? '…' : ''}`;
+};
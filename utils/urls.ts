@@ -0,0 +1,10 @@
+import { Request } from 'express';
+
+const publicUrl = (process.env.PUBLIC_API_URL || '').replace(/\/+$/, '');
+
+/**
+ * Absolute URL of the API that links in responses are built on. Without
+ * `PUBLIC_API_URL` it is the origin the request was sent to, which behind a
+ * reverse proxy is only right when `TRUST_PROXY` is set.
+ */
+export const apiBaseUrl = (req: Request) => publicUrl || `${req.protocol}://${req.host}`;
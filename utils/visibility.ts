@@ -0,0 +1,58 @@
+import { QueryFilter } from 'mongoose';
+import { IPost } from '../models/post';
+
+export interface Viewer {
+    userId: string;
+    role: string;
+}
+
+type SchedulablePost = Pick<IPost, 'hidden' | 'publishAt' | 'expiresAt' | 'archivedAt'>;
+
+export type PostStatus = 'scheduled' | 'published' | 'expired';
+
+// Published, not yet expired and not hidden by moderation
+const liveFilter = (now: Date): QueryFilter<IPost> => ({
+    hidden: { $ne: true },
+    archivedAt: null,
+    $and: [
+        { $or: [{ publishAt: null }, { publishAt: { $lte: now } }] },
+        { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+    ],
+});
+
+/**
+ * Scheduling state of a post. Posts past `expiresAt` count as expired even
+ * before the scheduler has archived them.
+ */
+export const postStatus = (post: Omit<SchedulablePost, 'hidden'>, now = new Date()): PostStatus => {
+    if (post.archivedAt || (post.expiresAt && post.expiresAt <= now)) return 'expired';
+    if (post.publishAt && post.publishAt > now) return 'scheduled';
+    return 'published';
+};
+
+/**
+ * Posts everybody is allowed to see.
+ */
+export const publicPostFilter = (): QueryFilter<IPost> => ({
+    deletedAt: null,
+    ...liveFilter(new Date()),
+});
+
+/**
+ * Posts the given user is allowed to see: admins see everything that is not
+ * in the trash, authors additionally see their own hidden, scheduled and expired posts.
+ */
+export const postVisibilityFilter = (viewer: Viewer): QueryFilter<IPost> => {
+    if (viewer.role === 'admin') return { deletedAt: null };
+    return { deletedAt: null, $or: [liveFilter(new Date()), { author: viewer.userId }] };
+};
+
+export const isPublicPost = (post: SchedulablePost & Pick<IPost, 'deletedAt'>) =>
+    !post.deletedAt && !post.hidden && postStatus(post) === 'published';
+
+export const canViewPost = (post: SchedulablePost & Pick<IPost, 'author' | 'deletedAt'>, viewer: Viewer) =>
+    !post.deletedAt && (
+        viewer.role === 'admin'
+        || post.author === viewer.userId
+        || isPublicPost(post)
+    );